@@ -15,9 +15,10 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { DateTime, Interval } from "luxon";
+import { DateTime } from "luxon";
 import {
   Action,
+  ActionSchema,
   Engine,
   LogLevel,
   FindActionOptions,
@@ -26,20 +27,99 @@ import {
 import { Client, ClientOptions } from "@opensearch-project/opensearch";
 
 import { OpenSearchAction, OpenSearchActionSchema } from "./action";
-import { transformArrayToObject, transformObjectToArray } from "./utils";
+import {
+  ActionNotFoundError,
+  BulkCreateError,
+  MappingConflictError,
+  OpenSearchEngineError,
+  ValidationError,
+  toOpenSearchEngineError,
+} from "./errors";
+import {
+  AggregateBucket,
+  AggregateGroupBy,
+  AggregateOptions,
+  AggregateResult,
+  HistogramBucket,
+  HistogramNumericMetric,
+  HistogramOptions,
+  CursorFindActionOptions,
+  CursorPage,
+  StreamOptions,
+  BulkCreateOptions,
+  BulkCreateFailure,
+  BulkCreateResult,
+  RetryOptions,
+  RefreshPolicy,
+  CreateOptions,
+  DeleteByIdOptions,
+  DeleteManyOptions,
+  DeleteManyResult,
+  AnonymizeAgentOptions,
+  AnonymizeAgentResult,
+  IndexLifecyclePolicyOptions,
+  StorageMode,
+  DataStreamRolloverOptions,
+  Tenancy,
+  SharedTenancyMigrationOptions,
+  SharedTenancyMigrationResult,
+  IndexGranularity,
+  IndexNameTokens,
+  MappingMigrationOptions,
+  MappingMigrationResult,
+  MappingStatus,
+  InitResult,
+  ActionFilterClauses,
+  OpenSearchFindActionFilters,
+  ActionFilterTree,
+  ActionFieldFilter,
+  QueryMode,
+  HighlightFindActionOptions,
+  HighlightOptions,
+  HighlightedResult,
+} from "./types";
+import {
+  decodeCursor,
+  diffMappings,
+  encodeCursor,
+  createPseudonym,
+  sanitizeIndexName,
+  sleep,
+  transformArrayToObject,
+  transformObjectToArray,
+} from "./utils";
 import {
   breakCircularReferences,
   deepCompareObjects,
 } from "@acro-sdk/common-store";
-import { INDEX_MAPPING } from "./mapping";
+import { INDEX_MAPPING, INDEX_MAPPING_VERSION } from "./mapping";
+import { ANONYMIZE_AGENT_SCRIPT } from "./scripts";
 import { v4 } from "uuid";
 
+// longest comma-separated index list to search; OpenSearch rejects request
+// lines over 4kb (http.max_initial_line_length) by default
+const MAX_INDEX_NAME_RANGE_LENGTH = 3000;
+
+// index setup runs once per cluster & index template, however many engines use them
+const initializations = new Map<string, Promise<InitResult>>();
+
 class OpenSearchEngine extends Engine<OpenSearchAction> {
   _client: Client;
 
   // revolving index names will follow this pattern
   _indexPattern: string = "actions_{companyId}_{year}_{month}";
 
+  // alternatively, write to a data stream per company and let it roll over
+  _storageMode: StorageMode = "monthly";
+  _dataStreamPattern: string = "actions_{companyId}";
+  _dataStreamRollover?: DataStreamRolloverOptions;
+
+  // or share time-based indices across companies, routed by companyId
+  _tenancy: Tenancy = "index";
+  _sharedIndexPattern: string = "actions_shared_{year}_{month}";
+  _tenantAliasPattern: string = "actions_tenant_{companyId}";
+  _tenantAliases = new Set<string>(); // "index/companyId" pairs with an alias
+
   // apply dynamic index template to all indexes
   _indexTemplateName: string = "acro_actions";
   _indexTemplatePattern: string = "actions_*";
@@ -47,22 +127,60 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
   _indexTemplateNumReplicas: number = 1;
   _autoUpdateIndexMappings: boolean = true;
 
+  // create, createMany & findMany wait for the index setup started by init()
+  _waitForInit: boolean = true;
+  _initKey: string;
+  _ready?: Promise<InitResult>;
+  _initResult?: InitResult; // of the last setup that finished
+  _setupErrors: OpenSearchEngineError[] = [];
+
+  // optional ISM policy moving indexes from hot to warm to deleted
+  _indexLifecyclePolicy?: IndexLifecyclePolicyOptions;
+
+  // refresh policy for writes; when not set, create refreshes and createMany doesn't
+  _refresh?: RefreshPolicy;
+
   // default search options
   _defaultStartMonthsAgo: number = 6; // 6 months ago
   _defaultPageSize: number = 25;
+  _defaultCursorKeepAlive: string = "1m";
+  _defaultStreamBatchSize: number = 500;
+  _queryMode: QueryMode = "exact";
+
+  // retry transient errors with exponential backoff
+  _retry: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelay: 100,
+    maxDelay: 5000,
+    jitter: true,
+    retryableStatusCodes: [429, 502, 503, 504],
+  };
 
   constructor(
     options: {
       indexPattern?: string;
+      storageMode?: StorageMode;
+      dataStreamPattern?: string;
+      dataStreamRollover?: DataStreamRolloverOptions;
+      tenancy?: Tenancy;
+      sharedIndexPattern?: string;
+      tenantAliasPattern?: string;
       indexTemplateName?: string;
       indexTemplatePattern?: string;
       indexTemplateNumShards?: number;
       indexTemplateNumReplicas?: number;
       autoUpdateIndexMappings?: boolean;
+      waitForInit?: boolean;
+      indexLifecyclePolicy?: IndexLifecyclePolicyOptions;
       logger?: Function;
       logLevel?: LogLevel;
       defaultStartMonthsAgo?: number;
       defaultPageSize?: number;
+      defaultCursorKeepAlive?: string;
+      defaultStreamBatchSize?: number;
+      queryMode?: QueryMode;
+      retry?: RetryOptions;
+      refresh?: RefreshPolicy;
     },
     clientOptions: ClientOptions
   ) {
@@ -71,6 +189,24 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
     if (options?.indexPattern) {
       this._indexPattern = options.indexPattern;
     }
+    if (options?.storageMode) {
+      this._storageMode = options.storageMode;
+    }
+    if (options?.dataStreamPattern) {
+      this._dataStreamPattern = options.dataStreamPattern;
+    }
+    if (options?.dataStreamRollover) {
+      this._dataStreamRollover = options.dataStreamRollover;
+    }
+    if (options?.tenancy) {
+      this._tenancy = options.tenancy;
+    }
+    if (options?.sharedIndexPattern) {
+      this._sharedIndexPattern = options.sharedIndexPattern;
+    }
+    if (options?.tenantAliasPattern) {
+      this._tenantAliasPattern = options.tenantAliasPattern;
+    }
     if (options?.indexTemplateName) {
       this._indexTemplateName = options.indexTemplateName;
     }
@@ -86,19 +222,123 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
     if (typeof options?.autoUpdateIndexMappings !== "undefined") {
       this._autoUpdateIndexMappings = options.autoUpdateIndexMappings;
     }
+    if (typeof options?.waitForInit !== "undefined") {
+      this._waitForInit = options.waitForInit;
+    }
+    if (options?.indexLifecyclePolicy) {
+      this._indexLifecyclePolicy = options.indexLifecyclePolicy;
+    }
     if (options?.defaultStartMonthsAgo) {
       this._defaultStartMonthsAgo = options.defaultStartMonthsAgo;
     }
     if (options?.defaultPageSize) {
       this._defaultPageSize = options.defaultPageSize;
     }
+    if (options?.defaultCursorKeepAlive) {
+      this._defaultCursorKeepAlive = options.defaultCursorKeepAlive;
+    }
+    if (options?.defaultStreamBatchSize) {
+      this._defaultStreamBatchSize = options.defaultStreamBatchSize;
+    }
+    if (options?.queryMode) {
+      this._queryMode = options.queryMode;
+    }
+    if (options?.retry) {
+      this._retry = { ...this._retry, ...options.retry };
+    }
+    if (typeof options?.refresh !== "undefined") {
+      this._refresh = options.refresh;
+    }
 
     this._client = new Client(clientOptions);
+    // engines only share a setup if they'd set up the same thing
+    this._initKey = JSON.stringify([
+      clientOptions.nodes || clientOptions.node,
+      this._indexTemplateName,
+      this._indexTemplatePattern,
+      this._indexTemplateNumShards,
+      this._indexTemplateNumReplicas,
+      this._storageMode,
+      this._dataStreamRollover,
+      this._indexLifecyclePolicy,
+    ]);
 
     if (this._autoUpdateIndexMappings) {
-      this.upsertIndexTemplates();
-      this.updateIndexMappings();
+      this.init();
+    }
+  }
+
+  /**
+   * Creates or updates the index template, ISM policy and existing index
+   * mappings. Runs once for every engine using the same cluster and index
+   * template and settings; if it fails, the next call runs it again.
+   * @returns {Promise<InitResult>} whether setup succeeded
+   */
+  async init(): Promise<InitResult> {
+    if (!this._ready || this._initResult?.success === false) {
+      this._initResult = undefined;
+
+      let initialization = initializations.get(this._initKey);
+      if (!initialization) {
+        initialization = (async () => {
+          this._setupErrors = [];
+
+          const templates = await this.upsertIndexTemplates();
+          const mappings = await this.updateIndexMappings();
+
+          return {
+            success: templates && mappings,
+            templates,
+            mappings,
+            errors: this._setupErrors,
+          };
+        })();
+
+        initializations.set(this._initKey, initialization);
+      }
+
+      const current = initialization;
+      this._ready = current.then((result) => {
+        if (!result.success) {
+          this.logger.error(
+            `init error: index setup failed ${JSON.stringify(result)}`
+          );
+
+          if (initializations.get(this._initKey) === current) {
+            initializations.delete(this._initKey);
+          }
+        }
+
+        this._initResult = result;
+        return result;
+      });
+    }
+
+    return this._ready;
+  }
+
+  /**
+   * Waits for the index setup started by init(), unless waitForInit is off.
+   * A setup that failed on a transient error (e.g. the cluster being
+   * unreachable) is run again first; other failures would only fail again.
+   * Setup failures are logged by init() and don't fail the caller.
+   * @returns {Promise<void>} nothing
+   */
+  async whenReady(): Promise<void> {
+    if (!this._waitForInit || !this._ready) {
+      return;
+    }
+
+    if (
+      this._initResult?.success === false &&
+      !this._initResult.errors.some(
+        (err) => this.isRetryableError(err) || this.isRetryableError(err.cause)
+      )
+    ) {
+      return;
     }
+
+    await this.init();
   }
 
   /**
@@ -270,11 +510,20 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
   /**
    * Creates an DB engine action in the database
    * @param {OpenSearchAction} action
+   * @param {CreateOptions} options
    * @returns {OpenSearchAction} createdAction
    */
-  async create(action: OpenSearchAction): Promise<OpenSearchAction> {
+  async create(
+    action: OpenSearchAction,
+    options: CreateOptions = {}
+  ): Promise<OpenSearchAction> {
     // validate
-    OpenSearchActionSchema.parse(action);
+    const validation = OpenSearchActionSchema.safeParse(action);
+    if (!validation.success) {
+      throw new ValidationError(validation.error);
+    }
+
+    await this.whenReady();
 
     return new Promise(async (resolve, reject) => {
       const id = v4();
@@ -284,43 +533,101 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
         id: action.id || id,
       };
 
-      await this._client
-        .index({
+      let attempts = 0;
+      await this.withRetry("index", () => {
+        attempts++;
+        return this._client.index({
           id: body.id,
           index: this.getIndexName(action),
+          // data streams are append-only
+          ...(this._storageMode === "dataStream" ? { op_type: "create" } : {}),
+          ...this.getRouting(action.companyId),
           body,
-          refresh: true,
-        })
-        .then((response) => {
+          refresh: options.refresh ?? this._refresh ?? true,
+        });
+      })
+        .then(async (response) => {
           this.logger.debug(`index success: ${JSON.stringify(response)}`);
 
+          await this.ensureTenantAliases([body]);
+
           resolve(body as OpenSearchAction);
         })
-        .catch((err) => {
+        .catch(async (err) => {
+          // a retried create conflicts when an attempt that seemed to fail was
+          // stored after all, e.g. a 503 sent after the write
+          if (
+            attempts > 1 &&
+            this.isVersionConflict(err.statusCode, err.body?.error?.type)
+          ) {
+            await this.ensureTenantAliases([body]);
+
+            resolve(body as OpenSearchAction);
+            return;
+          }
+
           this.logger.error(
             `index error: ${err.statusCode} ${err.name} ${
               err.message
             } ${JSON.stringify(err.body)}`
           );
 
-          reject(err);
+          reject(toOpenSearchEngineError(err));
         });
     });
   }
 
   /**
    * Creates several DB engine actions in the database
+   * Rejects with a BulkCreateError if OpenSearch rejects any of them.
    * @param {OpenSearchAction[]} actions
+   * @param {CreateOptions} options
    * @returns {OpenSearchAction[]} createdActions
    */
-  async createMany(actions: OpenSearchAction[]): Promise<OpenSearchAction[]> {
-    const bulk: any = [];
+  async createMany(
+    actions: OpenSearchAction[],
+    options: CreateOptions = {}
+  ): Promise<OpenSearchAction[]> {
+    const result = await this.bulkCreate(actions, options);
+
+    if (result.failed.length) {
+      throw new BulkCreateError(result);
+    }
+
+    return result.created;
+  }
+
+  /**
+   * Creates several DB engine actions in the database, reporting which ones
+   * were created and which ones failed
+   * @param {OpenSearchAction[]} actions
+   * @param {BulkCreateOptions} options
+   * @returns {BulkCreateResult} result
+   */
+  async bulkCreate(
+    actions: OpenSearchAction[],
+    options: BulkCreateOptions = {}
+  ): Promise<BulkCreateResult> {
     const dbActions: OpenSearchAction[] = [];
+    const failed: BulkCreateFailure[] = [];
 
     actions?.forEach((action) => {
-      // validate each one; throw error for the whole call if any are bad
-      // QUESTION: should we allow the OK ones through or fail all?
-      OpenSearchActionSchema.parse(action);
+      // validate each one; by default throw error for the whole call if any are bad
+      const validation = OpenSearchActionSchema.safeParse(action);
+      if (!validation.success) {
+        if (!options.skipInvalid) {
+          throw new ValidationError(validation.error);
+        }
+
+        failed.push({
+          action,
+          type: "validation_error",
+          reason: validation.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", "),
+        });
+        return;
+      }
 
       // generate id if not present
       const id = v4();
@@ -329,27 +636,129 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
         id: action.id || id,
       };
 
+      dbActions.push(body);
+    });
+
+    await this.whenReady();
+
+    const created: OpenSearchAction[] = [];
+
+    // only the items that failed with a retryable status are resent
+    let pending = dbActions;
+    for (let attempt = 1; pending.length; attempt++) {
+      const result = await this.bulkIndex(
+        pending,
+        options.refresh ?? this._refresh
+      );
+      created.push(...result.created);
+
+      // resent creates that conflict were stored by the previous attempt
+      if (attempt > 1) {
+        const stored = result.failed.filter((failure) =>
+          this.isVersionConflict(failure.status, failure.type)
+        );
+        created.push(...stored.map((failure) => failure.action));
+        result.failed = result.failed.filter(
+          (failure) => !stored.includes(failure)
+        );
+      }
+
+      const retryable = result.failed.filter((failure) =>
+        this._retry.retryableStatusCodes.includes(failure.status as number)
+      );
+
+      if (!retryable.length || attempt >= this._retry.maxAttempts) {
+        failed.push(...result.failed);
+        break;
+      }
+
+      failed.push(
+        ...result.failed.filter((failure) => !retryable.includes(failure))
+      );
+      pending = retryable.map((failure) => failure.action);
+
+      this.logger.warn(
+        `bulk retrying ${pending.length} items (attempt ${attempt + 1} of ${
+          this._retry.maxAttempts
+        })`
+      );
+      await sleep(this.getRetryDelay(attempt));
+    }
+
+    await this.ensureTenantAliases(created);
+
+    return { created, failed };
+  }
+
+  /**
+   * Sends one bulk request indexing the given (already validated) DB engine actions
+   * @param {OpenSearchAction[]} dbActions
+   * @param {RefreshPolicy} refresh
+   * @returns {BulkCreateResult} result
+   */
+  async bulkIndex(
+    dbActions: OpenSearchAction[],
+    refresh?: RefreshPolicy
+  ): Promise<BulkCreateResult> {
+    const bulk: any = [];
+
+    // data streams are append-only
+    const op = this._storageMode === "dataStream" ? "create" : "index";
+
+    dbActions.forEach((action) => {
       bulk.push({
-        index: {
+        [op]: {
           _index: this.getIndexName(action),
-          _id: body.id,
+          _id: action.id,
+          ...this.getRouting(action.companyId),
         },
       });
-      bulk.push(body);
-
-      // response is the list of indexed actions
-      dbActions.push(body);
+      bulk.push(action);
     });
 
     return new Promise(async (resolve, reject) => {
-      await this._client
-        .bulk({
+      let attempts = 0;
+      await this.withRetry("bulk", () => {
+        attempts++;
+        return this._client.bulk({
           body: bulk,
-        })
+          ...(typeof refresh !== "undefined" ? { refresh } : {}),
+        });
+      })
         .then((response) => {
           this.logger.debug(`bulk success: ${JSON.stringify(response)}`);
 
-          resolve(dbActions as OpenSearchAction[]);
+          const created: OpenSearchAction[] = [];
+          const failed: BulkCreateFailure[] = [];
+
+          // bulk response items are in the same order as the request
+          dbActions.forEach((action, i) => {
+            const item = response?.body?.items?.[i]?.[op];
+
+            // a resent create conflicts when the failed request was stored after all
+            if (
+              item?.error &&
+              !(
+                attempts > 1 &&
+                this.isVersionConflict(item.status, item.error.type)
+              )
+            ) {
+              this.logger.error(
+                `bulk item error: ${item.status} ${item.error.type} ${item.error.reason}`
+              );
+
+              failed.push({
+                action,
+                status: item.status,
+                type: item.error.type,
+                reason: item.error.reason,
+              });
+            } else {
+              created.push(action);
+            }
+          });
+
+          resolve({ created, failed });
         })
         .catch((err) => {
           this.logger.error(
@@ -358,220 +767,2014 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
             } ${JSON.stringify(err.body)}`
           );
 
-          reject(err);
+          reject(toOpenSearchEngineError(err));
         });
     });
   }
 
+  /**
+   * Creates an action in the database after converting to DB engine action
+   * @param {Action} action
+   * @param {CreateOptions} options
+   * @returns {Action} createdAction
+   */
+  async createAction(
+    action: Action,
+    options: CreateOptions = {}
+  ): Promise<Action> {
+    // validate
+    const validation = ActionSchema.safeParse(action);
+    if (!validation.success) {
+      throw new ValidationError(validation.error);
+    }
+
+    return this.deserialize(
+      await this.create(await this.serialize(action), options)
+    );
+  }
+
+  /**
+   * Creates multiple actions in the database after converting to DB engine actions
+   * @param {Action[]} actions
+   * @param {CreateOptions} options
+   * @returns {Action[]} createdActions
+   */
+  async createManyActions(
+    actions: Action[],
+    options: CreateOptions = {}
+  ): Promise<Action[]> {
+    // validate
+    actions.forEach((action) => {
+      const validation = ActionSchema.safeParse(action);
+      if (!validation.success) {
+        throw new ValidationError(validation.error);
+      }
+    });
+
+    const created = await this.createMany(
+      await Promise.all(actions.map((action) => this.serialize(action))),
+      options
+    );
+
+    return Promise.all(created.map((action) => this.deserialize(action)));
+  }
+
+  /**
+   * Creates several actions in the database after converting to DB engine
+   * actions, reporting which ones were created and which ones failed
+   * @param {Action[]} actions
+   * @param {BulkCreateOptions} options
+   * @returns {BulkCreateResult} result with created actions deserialized
+   */
+  async bulkCreateActions(
+    actions: Action[],
+    options: BulkCreateOptions = {}
+  ): Promise<{ created: Action[]; failed: BulkCreateFailure[] }> {
+    const result = await this.bulkCreate(
+      await Promise.all(actions.map((action) => this.serialize(action))),
+      options
+    );
+
+    return {
+      created: await Promise.all(
+        result.created.map((action) => this.deserialize(action))
+      ),
+      failed: result.failed,
+    };
+  }
+
   /**
    * Finds and returns a single DB engine action
+   * Actions are spread across the revolving indices, so without a companyId or
+   * timestamp hint this searches every index matching _indexTemplatePattern.
    * @param {string} id
+   * @param {{ companyId?: string, timestamp?: string }} options narrows down the indices searched
    * @returns {OpenSearchAction} action
    */
-  async findById(id: string): Promise<OpenSearchAction> {
-    // TODO: Implement this method
-    throw new Error("Method not implemented");
+  async findById(
+    id: string,
+    options?: { companyId?: string; timestamp?: string }
+  ): Promise<OpenSearchAction> {
+    return (await this.findHitById(id, options))._source;
   }
 
   /**
-   * Finds and returns multiple DB engine actions
+   * Finds the search hit for a single DB engine action, including the index it is stored in
    * @param {string} id
-   * @returns {OpenSearchAction} actions
+   * @param {{ companyId?: string, timestamp?: string }} options narrows down the indices searched
+   * @returns {{ _index: string, _source: OpenSearchAction }} hit
    */
-  async findMany(
-    options: FindActionOptions,
-    filters: FindActionFilters
-  ): Promise<OpenSearchAction[]> {
+  async findHitById(
+    id: string,
+    options?: { companyId?: string; timestamp?: string }
+  ): Promise<{ _index: string; _routing?: string; _source: OpenSearchAction }> {
     return new Promise(async (resolve, reject) => {
-      const must = this.buildFindManyQuery(options, filters);
+      const index = this.getIndexNameWildcard({
+        companyId: options?.companyId,
+        timestamp: options?.timestamp,
+      });
 
       const body = {
-        query: { bool: { must } },
-        from:
-          ((options.page || 1) - 1) * (options.limit || this._defaultPageSize), // default to page 1
-        size: options.limit || this._defaultPageSize, // default to _defaultPageSize aka 25
-        sort: [
-          // default sort by timestamp descending
-          {
-            [options.sortBy || "timestamp"]: {
-              order: options.sortDirection || "desc",
-            },
+        query: {
+          bool: {
+            must: [
+              { term: { id } },
+              ...(options?.companyId
+                ? [{ term: { companyId: options.companyId } }]
+                : []),
+            ],
           },
-        ],
+        },
+        size: 1,
       };
 
-      const index = this.getIndexNameRange({
-        companyId: filters.companyId,
-        start: filters.start,
-        end: filters.end,
-      });
-
-      this.logger.debug(`findMany query: ${JSON.stringify({ index, body })}`);
+      this.logger.debug(`findById query: ${JSON.stringify({ index, body })}`);
 
-      await this._client
-        .search({ index, body, ignore_unavailable: true })
+      await this.withRetry("findById", () =>
+        this._client.search({
+          index,
+          body,
+          ignore_unavailable: true,
+          ...this.getRouting(options?.companyId),
+        })
+      )
         .then((docs) => {
-          resolve(docs?.body?.hits?.hits?.map((doc: any) => doc?._source));
+          const hit = docs?.body?.hits?.hits?.[0];
+
+          if (!hit?._source) {
+            this.logger.debug(`findById(${id}) not found`);
+
+            return reject(new ActionNotFoundError(id));
+          }
+
+          resolve(hit);
         })
         .catch((err) => {
           this.logger.error(
-            `findMany error: ${err.statusCode} ${err.name} ${
+            `findById error: ${err.statusCode} ${err.name} ${
               err.message
             } ${JSON.stringify(err.body)}`
           );
 
-          reject(err);
+          reject(toOpenSearchEngineError(err));
         });
     });
   }
 
-  // ------------------------------------------------------------------------------------
-  // Below are OpenSearch-specific methods
-
   /**
-   * Gets the index to store the action in.
-   * @param {OpenSearchAction} action
-   * @returns
+   * Finds and returns a single action
+   * @param {string} id
+   * @param {{ companyId?: string, timestamp?: string }} options narrows down the indices searched
+   * @returns {Action} action
    */
-  getIndexName(action: OpenSearchAction): string {
-    const timestamp = new Date(action.timestamp);
+  async findActionById(
+    id: string,
+    options?: { companyId?: string; timestamp?: string }
+  ): Promise<Action> {
+    return this.deserialize(await this.findById(id, options));
+  }
 
-    const year = timestamp.getUTCFullYear().toString();
-    let month = (timestamp.getUTCMonth() + 1).toString();
-    if (month.length === 1) {
-      month = `0${month}`;
-    }
+  /**
+   * Finds and returns multiple actions, accepting the OpenSearch-specific filters
+   * @param {FindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {Action[]} actions
+   */
+  async findManyActions(
+    options: FindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<Action[]> {
+    const actions = await this.findMany(options, filters);
 
-    return this._indexPattern
-      .replace(/\{companyId\}/g, action.companyId || "")
-      .replace(/\{year\}/g, year)
-      .replace(/\{month\}/g, month);
+    return Promise.all(actions.map((action) => this.deserialize(action)));
   }
 
   /**
-   * Gets the index to store the action in.
-   * @param {OpenSearchAction} action
-   * @returns
+   * Finds and returns multiple DB engine actions
+   * @param {string} id
+   * @returns {OpenSearchAction} actions
    */
-  getIndexNameRange({
-    companyId,
-    start,
-    end,
-  }: {
-    companyId: string;
-    start?: string;
-    end?: string;
-  }): string {
-    let startDate: DateTime;
-    let endDate: DateTime;
-
-    if (start) {
-      startDate = DateTime.fromISO(start, {
-        zone: "utc",
-      });
-    } else {
-      // default to (this._defaultStartMonthsAgo=6) months ago
-      startDate = DateTime.fromObject({}, { zone: "utc" }).minus({
-        months: this._defaultStartMonthsAgo,
-      });
-    }
-    if (end) {
-      endDate = DateTime.fromISO(end, {
-        zone: "utc",
-      });
-    } else {
-      endDate = DateTime.fromObject({}, { zone: "utc" });
-    }
+  async findMany(
+    options: FindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<OpenSearchAction[]> {
+    const hits = await this.searchActions("findMany", options, filters);
 
-    return Interval.fromDateTimes(startDate, endDate)
-      .splitBy({ month: 1 })
-      .map((d) => {
-        if (d.end) {
-          return `${this._indexPattern
-            .replace(/\{companyId\}/g, companyId)
-            .replace(/\{year\}/g, d.end.toFormat("yyyy"))
-            .replace(/\{month\}/g, d.end.toFormat("LL"))}`; // append * in case index doesn't exist
-        }
-      })
-      .join(",");
+    return hits.map((doc: any) => doc?._source);
   }
 
   /**
-   * Creates the action index dynamic template
-   * @returns {Promise<void>} nothing
+   * Runs the search for a FindMany call, highlighting the matches if
+   * options.highlight is set
+   * @param {string} operation name used in logs
+   * @param {HighlightFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {any[]} hits
    */
-  async createIndexTemplates(): Promise<void> {
-    if (!this._client) {
-      return;
-    }
+  async searchActions(
+    operation: string,
+    options: HighlightFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<any[]> {
+    await this.whenReady();
 
-    await new Promise(async (resolve) => {
-      this._client.indices
-        .putIndexTemplate({
-          name: this._indexTemplateName,
-          body: {
-            index_patterns: [this._indexTemplatePattern],
-            template: {
-              settings: {
-                index: {
-                  number_of_shards: this._indexTemplateNumShards,
-                  number_of_replicas: this._indexTemplateNumReplicas,
-                },
-              },
-              mappings: {
-                properties: INDEX_MAPPING,
-              },
-            },
-          },
-        })
-        .then((template) => {
-          this.logger.info(
-            `putIndexTemplate success – index template created!`
-          );
+    return new Promise(async (resolve, reject) => {
+      const body = this.buildFindManyBody(options, filters);
 
-          resolve(template);
+      const index = this.getIndexNameRange(filters);
+
+      this.logger.debug(
+        `${operation} query: ${JSON.stringify({ index, body })}`
+      );
+
+      await this.withRetry(operation, () =>
+        this._client.search({
+          index,
+          body,
+          ignore_unavailable: true,
+          ...this.getRouting(filters.companyId),
+        })
+      )
+        .then((docs) => {
+          resolve(docs?.body?.hits?.hits || []);
         })
         .catch((err) => {
           this.logger.error(
-            `putIndexTemplate error: ${err.statusCode} ${err.name} ${
+            `${operation} error: ${err.statusCode} ${err.name} ${
               err.message
             } ${JSON.stringify(err.body)}`
           );
 
-          // don't throw an error
-          resolve(null);
+          reject(toOpenSearchEngineError(err));
         });
     });
   }
 
+  // ------------------------------------------------------------------------------------
+  // Below are OpenSearch-specific methods
+
   /**
-   * Creates the action index dynamic template, if it doesn't exist already or doesn't match
-   * @returns {Promise<void>} nothing
+   * Deletes a single DB engine action
+   * @param {string} id
+   * @param {DeleteByIdOptions} options narrows down the indices searched
+   * @returns {OpenSearchAction} deletedAction
    */
-  async upsertIndexTemplates(): Promise<void> {
+  async deleteById(
+    id: string,
+    options: DeleteByIdOptions = {}
+  ): Promise<OpenSearchAction> {
+    const hit = await this.findHitById(id, options);
+
+    return new Promise(async (resolve, reject) => {
+      await this.withRetry("deleteById", () =>
+        this._client.delete({
+          index: hit._index,
+          id,
+          ...(hit._routing ? { routing: hit._routing } : {}),
+          ...(typeof options.refresh !== "undefined"
+            ? { refresh: options.refresh }
+            : {}),
+        })
+      )
+        .then((response) => {
+          this.logger.debug(`deleteById success: ${JSON.stringify(response)}`);
+
+          resolve(hit._source);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `deleteById error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Deletes every DB engine action matching the filters, e.g. for retention or
+   * to erase everything a given agent did. Counts the matches first, and stops
+   * there on a dry run.
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {DeleteManyOptions} options
+   * @returns {DeleteManyResult} result
+   */
+  async deleteMany(
+    filters: OpenSearchFindActionFilters,
+    options: DeleteManyOptions = {}
+  ): Promise<DeleteManyResult> {
+    const { index, query } = this.buildDeleteManyQuery(filters, options);
+
+    this.logger.debug(`deleteMany query: ${JSON.stringify({ index, query })}`);
+
+    const matched: number = await new Promise(async (resolve, reject) => {
+      await this.withRetry("count", () =>
+        this._client.count({
+          index,
+          body: { query },
+          ignore_unavailable: true,
+          ...this.getRouting(filters.companyId),
+        })
+      )
+        .then((result) => {
+          resolve(result?.body?.count || 0);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `count error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+
+    if (options.dryRun || !matched) {
+      return { matched, deleted: 0, dryRun: !!options.dryRun };
+    }
+
+    return new Promise(async (resolve, reject) => {
+      await this.withRetry("deleteByQuery", () =>
+        this._client.deleteByQuery({
+          index,
+          body: { query },
+          ignore_unavailable: true,
+          ...this.getRouting(filters.companyId),
+          conflicts: "proceed",
+          wait_for_completion: true,
+          ...(typeof options.refresh !== "undefined"
+            ? { refresh: options.refresh }
+            : {}),
+        })
+      )
+        .then((result) => {
+          this.logger.info(
+            `deleteMany deleted ${result?.body?.deleted} of ${matched} actions`
+          );
+
+          resolve({
+            matched,
+            deleted: result?.body?.deleted || 0,
+            dryRun: false,
+          });
+        })
+        .catch((err) => {
+          this.logger.error(
+            `deleteByQuery error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Replaces an agent's identifying values in every stored action with a stable
+   * pseudonym, so the actions keep their audit value without identifying the person
+   * @param {AnonymizeAgentOptions} options
+   * @returns {AnonymizeAgentResult} result
+   */
+  async anonymizeAgent(
+    options: AnonymizeAgentOptions
+  ): Promise<AnonymizeAgentResult> {
+    const { index, body, pseudonym } = this.buildAnonymizeAgentQuery(options);
+
+    this.logger.debug(
+      `anonymizeAgent query: ${JSON.stringify({ index, query: body.query })}`
+    );
+
+    return new Promise(async (resolve, reject) => {
+      await this.withRetry("updateByQuery", () =>
+        this._client.updateByQuery({
+          index,
+          body,
+          ignore_unavailable: true,
+          ...this.getRouting(options.companyId),
+          conflicts: "proceed",
+          wait_for_completion: true,
+          ...(typeof options.refresh !== "undefined"
+            ? { refresh: options.refresh }
+            : {}),
+        })
+      )
+        .then((result) => {
+          this.logger.info(
+            `anonymizeAgent updated ${result?.body?.updated} actions`
+          );
+
+          resolve({ pseudonym, updated: result?.body?.updated || 0 });
+        })
+        .catch((err) => {
+          this.logger.error(
+            `updateByQuery error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Returns the indices, update_by_query body and pseudonym for an anonymizeAgent call
+   * @param {AnonymizeAgentOptions} options
+   * @returns
+   */
+  buildAnonymizeAgentQuery(options: AnonymizeAgentOptions): {
+    index: string;
+    body: Record<string, any>;
+    pseudonym: string;
+  } {
+    if (!options.agentId && !Object.keys(options.meta || {}).length) {
+      throw new OpenSearchEngineError(
+        "anonymizeAgent requires an agentId or meta",
+        { statusCode: 400 }
+      );
+    }
+
+    const pseudonym = createPseudonym(
+      [
+        options.companyId,
+        options.agentId || "",
+        ...Object.keys(options.meta || {})
+          .sort()
+          .map((key) => `${key}=${options.meta?.[key]}`),
+      ].join(":"),
+      options.salt
+    );
+
+    // every action for the company, not just the default date range
+    const must = this.buildFindManyQuery(
+      {},
+      {
+        companyId: options.companyId,
+        agents: {
+          ...(options.agentId ? { id: options.agentId } : {}),
+          ...(options.meta ? { meta: options.meta } : {}),
+        },
+      }
+    ).filter((clause: any) => !clause.range?.timestamp);
+
+    return {
+      index: this._indexTemplatePattern,
+      body: {
+        query: { bool: { must } },
+        script: {
+          lang: "painless",
+          source: ANONYMIZE_AGENT_SCRIPT,
+          params: {
+            agentId: options.agentId || null,
+            meta: options.meta || null,
+            pseudonym,
+          },
+        },
+      },
+      pseudonym,
+    };
+  }
+
+  /**
+   * Returns the indices and query for a deleteMany call
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {DeleteManyOptions} options
+   * @returns
+   */
+  buildDeleteManyQuery(
+    filters: OpenSearchFindActionFilters,
+    options: DeleteManyOptions = {}
+  ): { index: string; query: Record<string, any> } {
+    // never delete across companies
+    if (!filters.companyId) {
+      throw new OpenSearchEngineError("deleteMany requires a companyId", {
+        statusCode: 400,
+      });
+    }
+
+    let must = this.buildFindManyQuery({}, filters);
+
+    // without a start, erasure must not miss older actions: search every index
+    // for the company, and only keep the end of the date range (if given)
+    if (options.allTime || !filters.start) {
+      must = must.filter((clause: any) => !clause.range?.timestamp);
+      if (filters.end && !options.allTime) {
+        must.push({
+          range: {
+            timestamp: {
+              lt: DateTime.fromISO(filters.end, { zone: "utc" }).toISO(),
+            },
+          },
+        });
+      }
+
+      return {
+        index: this.getIndexNameWildcard({ companyId: filters.companyId }),
+        query: { bool: { must } },
+      };
+    }
+
+    return {
+      index: this.getIndexNameRange(filters),
+      query: { bool: { must } },
+    };
+  }
+
+  /**
+   * Finds and returns multiple DB engine actions, each with the fragments of
+   * the fields that matched. Matches in nested fields (e.g. request.value,
+   * response.body.value or changes.after) are highlighted with inner_hits.
+   * Runs the same search as findMany, which only returns the actions.
+   * @param {HighlightFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {HighlightedResult<OpenSearchAction>[]} results
+   */
+  async findManyWithHighlights(
+    options: HighlightFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<HighlightedResult<OpenSearchAction>[]> {
+    const hits = await this.searchActions(
+      "findManyWithHighlights",
+      { ...options, highlight: options.highlight || {} },
+      filters
+    );
+
+    return hits.map((doc: any) => ({
+      action: doc?._source,
+      highlights: this.getHighlights(doc),
+    }));
+  }
+
+  /**
+   * Finds and returns multiple actions, each with the fragments of the fields
+   * that matched
+   * @param {HighlightFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {HighlightedResult<Action>[]} results
+   */
+  async findManyActionsWithHighlights(
+    options: HighlightFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<HighlightedResult<Action>[]> {
+    const results = await this.findManyWithHighlights(options, filters);
+
+    return Promise.all(
+      results.map(async ({ action, highlights }) => ({
+        action: await this.deserialize(action),
+        highlights,
+      }))
+    );
+  }
+
+  /**
+   * Finds and returns one page of DB engine actions using a point-in-time and
+   * search_after, so paging is consistent while new actions are being indexed
+   * and isn't limited by max_result_window.
+   * @param {CursorFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {CursorPage<OpenSearchAction>} page
+   */
+  async findManyWithCursor(
+    options: CursorFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<CursorPage<OpenSearchAction>> {
+    const keepAlive = options.keepAlive || this._defaultCursorKeepAlive;
+    const size = options.limit || this._defaultPageSize;
+
+    const state: { pitId: string; searchAfter?: any[]; sortDirection: string } =
+      options.cursor
+        ? decodeCursor(options.cursor)
+        : {
+            pitId: await this.createPointInTime(filters, keepAlive),
+            sortDirection: options.sortDirection || "desc",
+          };
+
+    return new Promise(async (resolve, reject) => {
+      const must = this.buildFindManyQuery({}, filters);
+
+      const body = {
+        query: { bool: { must } },
+        size,
+        pit: { id: state.pitId, keep_alive: keepAlive },
+        // id is the tiebreaker for actions with the same timestamp
+        sort: [
+          { timestamp: { order: state.sortDirection } },
+          { id: { order: state.sortDirection } },
+        ],
+        ...(state.searchAfter ? { search_after: state.searchAfter } : {}),
+      };
+
+      this.logger.debug(`findManyWithCursor query: ${JSON.stringify(body)}`);
+
+      await this.withRetry("findManyWithCursor", () =>
+        this._client.search({ body })
+      )
+        .then(async (docs) => {
+          const hits = docs?.body?.hits?.hits || [];
+          const pitId = docs?.body?.pit_id || state.pitId;
+
+          let nextCursor: string | undefined;
+          if (hits.length === size) {
+            nextCursor = encodeCursor({
+              pitId,
+              searchAfter: hits[hits.length - 1].sort,
+              sortDirection: state.sortDirection,
+            });
+          } else {
+            await this.deletePointInTime(pitId);
+          }
+
+          resolve({
+            results: hits.map((doc: any) => doc?._source),
+            nextCursor,
+          });
+        })
+        .catch((err) => {
+          this.logger.error(
+            `findManyWithCursor error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Finds and returns one page of actions using a cursor
+   * @param {CursorFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns {CursorPage<Action>} page
+   */
+  async findManyActionsWithCursor(
+    options: CursorFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): Promise<CursorPage<Action>> {
+    const page = await this.findManyWithCursor(options, filters);
+
+    return {
+      ...page,
+      results: await Promise.all(
+        page.results.map((action) => this.deserialize(action))
+      ),
+    };
+  }
+
+  /**
+   * Iterates over every DB engine action matching the filters, across all the
+   * indices in range. The point-in-time is released when iteration finishes,
+   * including on an early break.
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {StreamOptions} options
+   * @returns {AsyncIterable<OpenSearchAction>} actions
+   */
+  async *stream(
+    filters: OpenSearchFindActionFilters,
+    options: StreamOptions = {}
+  ): AsyncGenerator<OpenSearchAction, void, undefined> {
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const page: CursorPage<OpenSearchAction> =
+          await this.findManyWithCursor(
+            {
+              cursor,
+              limit: options.batchSize || this._defaultStreamBatchSize,
+              sortDirection: options.sortDirection,
+              keepAlive: options.keepAlive,
+            },
+            filters
+          );
+
+        cursor = page.nextCursor;
+
+        for (const action of page.results) {
+          yield action;
+        }
+      } while (cursor);
+    } finally {
+      if (cursor) {
+        await this.closeCursor(cursor);
+      }
+    }
+  }
+
+  /**
+   * Iterates over every action matching the filters
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {StreamOptions} options
+   * @returns {AsyncIterable<Action>} actions
+   */
+  async *streamActions(
+    filters: OpenSearchFindActionFilters,
+    options: StreamOptions = {}
+  ): AsyncGenerator<Action, void, undefined> {
+    for await (const action of this.stream(filters, options)) {
+      yield this.deserialize(action);
+    }
+  }
+
+  /**
+   * Releases the point-in-time behind a cursor that won't be paged to the end
+   * @param {string} cursor
+   * @returns {Promise<void>} nothing
+   */
+  async closeCursor(cursor: string): Promise<void> {
+    const { pitId } = decodeCursor<{ pitId: string }>(cursor);
+
+    await this.deletePointInTime(pitId);
+  }
+
+  /**
+   * Creates a point-in-time over the indices a set of filters would search
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {string} keepAlive
+   * @returns {string} pitId
+   */
+  async createPointInTime(
+    filters: OpenSearchFindActionFilters,
+    keepAlive: string
+  ): Promise<string> {
+    // append * to each index so months without an index don't fail the call;
+    // a data stream name is a prefix of others (actions_company1 of
+    // actions_company12), so match its backing indices instead
+    const index = this.getIndexNameRange(filters)
+      .split(",")
+      .map((name) =>
+        this._storageMode === "dataStream" ? `.ds-${name}-*` : `${name}*`
+      );
+
+    return new Promise(async (resolve, reject) => {
+      await this._client
+        .createPit({
+          index,
+          keep_alive: keepAlive,
+          // backing indices are hidden
+          ...(this._storageMode === "dataStream"
+            ? { expand_wildcards: "open,hidden" }
+            : {}),
+          ...this.getRouting(filters.companyId),
+        })
+        .then((result) => {
+          this.logger.debug(`createPit success: ${result?.body?.pit_id}`);
+
+          resolve(result?.body?.pit_id);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `createPit error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Deletes a point-in-time
+   * @param {string} pitId
+   * @returns {Promise<void>} nothing
+   */
+  async deletePointInTime(pitId: string): Promise<void> {
+    await new Promise(async (resolve) => {
+      await this._client
+        .deletePit({ body: { pit_id: [pitId] } })
+        .then((result) => {
+          this.logger.debug(`deletePit success: ${JSON.stringify(result)}`);
+
+          resolve(result);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `deletePit error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error; the point-in-time expires on its own
+          resolve(null);
+        });
+    });
+  }
+
+  /**
+   * Counts actions matching the filters, grouped by each of the groupBy fields
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {AggregateOptions} options
+   * @returns {AggregateResult} counts
+   */
+  async aggregate<G extends AggregateGroupBy>(
+    filters: OpenSearchFindActionFilters,
+    options: AggregateOptions<G>
+  ): Promise<AggregateResult<G>> {
+    return new Promise(async (resolve, reject) => {
+      const must = this.buildFindManyQuery({}, filters);
+
+      const body = {
+        query: { bool: { must } },
+        size: 0,
+        track_total_hits: true,
+        aggs: this.buildAggregateQuery(options),
+      };
+
+      const index = this.getIndexNameRange(filters);
+
+      this.logger.debug(`aggregate query: ${JSON.stringify({ index, body })}`);
+
+      await this.withRetry("aggregate", () =>
+        this._client.search({
+          index,
+          body,
+          ignore_unavailable: true,
+          ...this.getRouting(filters.companyId),
+        })
+      )
+        .then((result) => {
+          const aggregations = result?.body?.aggregations || {};
+
+          const groups = options.groupBy.reduce((obj, field) => {
+            const buckets = this.isNestedField(field)
+              ? aggregations[field]?.values?.buckets
+              : aggregations[field]?.buckets;
+
+            obj[field] = (buckets || []).map((bucket: any) => ({
+              key: bucket.key_as_string ?? String(bucket.key),
+              count: this.isNestedField(field)
+                ? bucket.actions?.doc_count
+                : bucket.doc_count,
+            }));
+
+            return obj;
+          }, {} as Record<G, AggregateBucket[]>);
+
+          resolve({
+            total: result?.body?.hits?.total?.value || 0,
+            groups,
+          });
+        })
+        .catch((err) => {
+          this.logger.error(
+            `aggregate error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Returns the OpenSearch aggregations for an aggregate call
+   * Nested fields are counted with a reverse_nested aggregation so that each
+   * bucket counts actions rather than nested agents, targets or changes.
+   * @param {AggregateOptions} options
+   * @returns
+   */
+  buildAggregateQuery(options: AggregateOptions): Record<string, any> {
+    const size = options.size || 10;
+
+    return options.groupBy.reduce<Record<string, any>>((aggs, field) => {
+      if (this.isNestedField(field)) {
+        aggs[field] = {
+          nested: { path: field.split(".")[0] },
+          aggs: {
+            values: {
+              terms: { field, size },
+              aggs: {
+                actions: { reverse_nested: {} },
+              },
+            },
+          },
+        };
+      } else {
+        aggs[field] = { terms: { field, size } };
+      }
+
+      return aggs;
+    }, {});
+  }
+
+  /**
+   * Summarizes actions matching the filters over time
+   * @param {OpenSearchFindActionFilters} filters
+   * @param {HistogramOptions} options
+   * @returns {HistogramBucket[]} buckets
+   */
+  async histogram(
+    filters: OpenSearchFindActionFilters,
+    options: HistogramOptions
+  ): Promise<HistogramBucket[]> {
+    return new Promise(async (resolve, reject) => {
+      const must = this.buildFindManyQuery({}, filters);
+
+      // fill in empty buckets across the whole searched range
+      const range = must.find((clause: any) => clause.range?.timestamp)?.range
+        ?.timestamp;
+
+      const body = {
+        query: { bool: { must } },
+        size: 0,
+        aggs: {
+          histogram: this.buildHistogramQuery(options, range),
+        },
+      };
+
+      const index = this.getIndexNameRange(filters);
+
+      this.logger.debug(`histogram query: ${JSON.stringify({ index, body })}`);
+
+      await this.withRetry("histogram", () =>
+        this._client.search({
+          index,
+          body,
+          ignore_unavailable: true,
+          ...this.getRouting(filters.companyId),
+        })
+      )
+        .then((result) => {
+          const buckets =
+            result?.body?.aggregations?.histogram?.buckets || [];
+
+          resolve(
+            buckets.map((bucket: any) => ({
+              timestamp: bucket.key_as_string,
+              count: bucket.doc_count,
+              metrics: this.getHistogramNumericMetrics(options).reduce<
+                HistogramBucket["metrics"]
+              >((metrics, field) => {
+                metrics[field] = {
+                  sum: bucket[`${field}.sum`]?.value || 0,
+                  avg: bucket[`${field}.avg`]?.value ?? null,
+                  percentiles: bucket[`${field}.percentiles`]?.values || {},
+                };
+                return metrics;
+              }, {}),
+            }))
+          );
+        })
+        .catch((err) => {
+          this.logger.error(
+            `histogram error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Returns the OpenSearch date_histogram aggregation for a histogram call
+   * @param {HistogramOptions} options
+   * @param {{ gte?: string, lt?: string }} range optional bounds to fill with empty buckets
+   * @returns
+   */
+  buildHistogramQuery(
+    options: HistogramOptions,
+    range?: { gte?: string; lt?: string }
+  ): Record<string, any> {
+    const percents = options.percents || [50, 95, 99];
+
+    return {
+      date_histogram: {
+        field: "timestamp",
+        calendar_interval: options.interval,
+        min_doc_count: 0,
+        ...(range?.gte && range?.lt
+          ? {
+              extended_bounds: {
+                min: range.gte,
+                // inclusive, unlike lt: no empty bucket after the range
+                max: DateTime.fromISO(range.lt, { zone: "utc" })
+                  .minus({ milliseconds: 1 })
+                  .toISO(),
+              },
+            }
+          : {}),
+      },
+      aggs: this.getHistogramNumericMetrics(options).reduce<
+        Record<string, any>
+      >((aggs, field) => {
+        aggs[`${field}.sum`] = { sum: { field } };
+        aggs[`${field}.avg`] = { avg: { field } };
+        aggs[`${field}.percentiles`] = { percentiles: { field, percents } };
+        return aggs;
+      }, {}),
+    };
+  }
+
+  /**
+   * Gets the numeric (non-count) metrics requested for a histogram
+   * @param {HistogramOptions} options
+   * @returns
+   */
+  getHistogramNumericMetrics(
+    options: HistogramOptions
+  ): HistogramNumericMetric[] {
+    return (options.metrics || ["count"]).filter(
+      (metric): metric is HistogramNumericMetric => metric !== "count"
+    );
+  }
+
+  /**
+   * Whether a field lives inside one of the nested agents, targets or changes documents
+   * @param {string} field
+   * @returns
+   */
+  isNestedField(field: string): boolean {
+    return ["agents", "targets", "changes"].includes(field.split(".")[0]);
+  }
+
+  /**
+   * Gets the index to store the action in.
+   * @param {OpenSearchAction} action
+   * @returns
+   */
+  getIndexName(
+    action: Pick<OpenSearchAction, "companyId" | "timestamp"> & IndexNameTokens
+  ): string {
+    if (this._storageMode === "dataStream") {
+      return this.getDataStreamName(action.companyId || "");
+    }
+
+    return this.replaceIndexDateTokens(
+      this.replaceIndexTokens(this.getIndexPattern(), action, "none"),
+      DateTime.fromJSDate(new Date(action.timestamp), { zone: "utc" })
+    );
+  }
+
+  /**
+   * Gets an index name (with wildcards) matching every index an action could be
+   * stored in, given whatever parts of the index name are known.
+   * @param {{ companyId?: string, timestamp?: string }} known
+   * @returns
+   */
+  getIndexNameWildcard({
+    companyId,
+    timestamp,
+  }: {
+    companyId?: string;
+    timestamp?: string;
+  }): string {
+    if (!companyId && !timestamp) {
+      return this._indexTemplatePattern;
+    }
+    if (this._storageMode === "dataStream") {
+      return this.getDataStreamName(companyId || "*");
+    }
+
+    const date = timestamp
+      ? DateTime.fromISO(timestamp, { zone: "utc" })
+      : undefined;
+
+    return this.replaceIndexDateTokens(
+      this.replaceIndexTokens(this.getIndexPattern(), { companyId }, "*"),
+      date
+    ).replace(/\*([^a-zA-Z0-9*]*\*)+/g, "*"); // collapse adjacent wildcards
+  }
+
+  /**
+   * Gets the finest date token in the index pattern, which decides how often a
+   * new index is started. Undefined if the pattern has no date tokens.
+   * @returns
+   */
+  getIndexGranularity(): IndexGranularity | undefined {
+    const pattern = this.getIndexPattern();
+
+    const granularities: IndexGranularity[] = [
+      "day",
+      "week",
+      "month",
+      "quarter",
+      "year",
+    ];
+
+    return granularities.find((granularity) =>
+      pattern.includes(`{${granularity}}`)
+    );
+  }
+
+  /**
+   * Replaces the {companyId}, {app}, {environment} and {clientId} tokens in an
+   * index name pattern, sanitizing the app, environment and clientId values for
+   * use in an index name
+   * @param {string} pattern
+   * @param {IndexNameTokens} tokens
+   * @param {string} missing replaces tokens without a value; they're kept if not given
+   * @returns
+   */
+  replaceIndexTokens(
+    pattern: string,
+    tokens: IndexNameTokens,
+    missing?: string
+  ): string {
+    return pattern.replace(
+      /\{(companyId|app|environment|clientId)\}/g,
+      (token, name: keyof IndexNameTokens) => {
+        const value = tokens[name];
+        if (name === "companyId") {
+          // used as-is like before the other tokens existed, so existing
+          // tenants keep their index names
+          return value || (missing ?? token);
+        }
+
+        return (value && sanitizeIndexName(value)) || (missing ?? token);
+      }
+    );
+  }
+
+  /**
+   * Replaces the date tokens in an index name pattern. With a {week} token,
+   * {year} is the ISO week-numbering year, so that e.g. 2024-12-30 lands in
+   * 2025 week 01 rather than 2024 week 01.
+   * @param {string} pattern
+   * @param {DateTime} date in UTC; every date token is replaced with * if not given
+   * @param {IndexGranularity[]} wildcards date tokens to replace with * anyway
+   * @returns
+   */
+  replaceIndexDateTokens(
+    pattern: string,
+    date?: DateTime,
+    wildcards: IndexGranularity[] = []
+  ): string {
+    const weekly = pattern.includes("{week}");
+
+    return wildcards
+      .reduce((name, token) => name.replaceAll(`{${token}}`, "*"), pattern)
+      .replace(
+        /\{year\}/g,
+        date ? date.toFormat(weekly ? "kkkk" : "yyyy") : "*"
+      )
+      .replace(/\{quarter\}/g, date ? date.toFormat("q") : "*")
+      .replace(/\{month\}/g, date ? date.toFormat("LL") : "*")
+      .replace(/\{week\}/g, date ? date.toFormat("WW") : "*")
+      .replace(/\{day\}/g, date ? date.toFormat("dd") : "*");
+  }
+
+  /**
+   * Gets the index to store the action in.
+   * @param {OpenSearchAction} action
+   * @returns
+   */
+  getIndexNameRange(
+    filters: Pick<
+      FindActionFilters,
+      "companyId" | "start" | "end" | "app" | "environment" | "clientId"
+    >
+  ): string {
+    const { companyId, start, end } = filters;
+
+    if (this._storageMode === "dataStream") {
+      // the data stream holds every month; the timestamp range narrows it down
+      return this.getDataStreamName(companyId);
+    }
+
+    let startDate: DateTime;
+    let endDate: DateTime;
+
+    if (start) {
+      startDate = DateTime.fromISO(start, {
+        zone: "utc",
+      });
+    } else {
+      // default to (this._defaultStartMonthsAgo=6) months ago
+      startDate = DateTime.fromObject({}, { zone: "utc" }).minus({
+        months: this._defaultStartMonthsAgo,
+      });
+    }
+    if (end) {
+      endDate = DateTime.fromISO(end, {
+        zone: "utc",
+      });
+    } else {
+      endDate = DateTime.fromObject({}, { zone: "utc" });
+    }
+
+    // one pattern per combination of filtered values; tokens without a filter
+    // match any value
+    let patterns = [
+      this.replaceIndexTokens(this.getIndexPattern(), { companyId }),
+    ];
+    for (const name of ["app", "environment", "clientId"] as const) {
+      const values = ([] as string[]).concat(filters[name] || []);
+      if (!values.length) {
+        continue;
+      }
+
+      patterns = patterns.flatMap((pattern) =>
+        values.map((value) =>
+          this.replaceIndexTokens(pattern, { [name]: value })
+        )
+      );
+    }
+    patterns = patterns.map((pattern) =>
+      this.replaceIndexTokens(pattern, {}, "*")
+    );
+
+    const granularity = this.getIndexGranularity();
+    if (!granularity) {
+      return [...new Set(patterns)].join(",");
+    }
+
+    // months and years fully inside the range are searched with one wildcard
+    // name (e.g. actions_c_2024_07_* for every day of July), so daily and
+    // weekly indices don't make the index list too long for a request line
+    const levels: Record<IndexGranularity, Array<"year" | "month">> = {
+      day: ["year", "month"],
+      week: ["year"],
+      month: ["year"],
+      quarter: ["year"],
+      year: [],
+    };
+    const getPeriod = (date: DateTime, level: "year" | "month") => {
+      // weekly indices belong to ISO week-numbering years
+      if (level === "year" && granularity === "week") {
+        const start = DateTime.fromObject(
+          { weekYear: date.weekYear, weekNumber: 1 },
+          { zone: "utc" }
+        );
+        return { start, next: start.plus({ weeks: date.weeksInWeekYear }) };
+      }
+
+      const start = date.startOf(level);
+      return { start, next: start.plus({ [level]: 1 }) };
+    };
+
+    // step from the start of the first period, so that every period touched
+    // by the range is included exactly once
+    const indices: string[] = [];
+    for (const pattern of patterns) {
+      let date = startDate.startOf(granularity);
+      while (date <= endDate) {
+        let index = this.replaceIndexDateTokens(pattern, date);
+        let next = date.plus({ [granularity]: 1 });
+
+        for (const level of levels[granularity]) {
+          const period = getPeriod(date, level);
+          if (
+            pattern.includes(`{${level}}`) &&
+            +period.start === +date &&
+            period.next.minus({ milliseconds: 1 }) <= endDate
+          ) {
+            index = this.replaceIndexDateTokens(
+              pattern,
+              date,
+              level === "year"
+                ? ["quarter", "month", "week", "day"]
+                : ["week", "day"]
+            );
+            next = period.next;
+            break;
+          }
+        }
+
+        if (!indices.includes(index)) {
+          indices.push(index);
+        }
+        date = next;
+      }
+    }
+
+    // still too long (e.g. partial months times app and environment filters):
+    // search every date, the timestamp range narrows it down
+    if (indices.join(",").length > MAX_INDEX_NAME_RANGE_LENGTH) {
+      return [
+        ...new Set(
+          patterns.map((pattern) => this.replaceIndexDateTokens(pattern))
+        ),
+      ].join(",");
+    }
+
+    return indices.join(",");
+  }
+
+  /**
+   * Gets the pattern revolving index names follow for the tenancy mode
+   * @returns
+   */
+  getIndexPattern(): string {
+    return this._tenancy === "shared"
+      ? this._sharedIndexPattern
+      : this._indexPattern;
+  }
+
+  /**
+   * Gets the routing parameter for a company's requests; in shared tenancy,
+   * each company's actions live on a single shard of each shared index
+   * @param {string} companyId
+   * @returns
+   */
+  getRouting(companyId?: string): { routing?: string } {
+    return this._tenancy === "shared" && companyId
+      ? { routing: companyId }
+      : {};
+  }
+
+  /**
+   * Gets the filtered alias for a company in shared tenancy
+   * @param {string} companyId
+   * @returns
+   */
+  getTenantAliasName(companyId: string): string {
+    return this._tenantAliasPattern.replace(/\{companyId\}/g, companyId);
+  }
+
+  /**
+   * Adds a company's filtered alias to every existing shared index, so tools
+   * reading through the alias only ever see that company's actions. Indices
+   * created later get the alias from ensureTenantAliases when actions are written.
+   * @param {string} companyId
+   * @returns {Promise<void>} nothing
+   */
+  async upsertTenantAlias(companyId: string): Promise<void> {
+    const index = this._sharedIndexPattern.replace(/\{[a-zA-Z]+\}/g, "*");
+    const name = this.getTenantAliasName(companyId);
+
+    await new Promise(async (resolve, reject) => {
+      await this.withRetry("putAlias", () =>
+        this._client.indices.putAlias({
+          index,
+          name,
+          body: {
+            filter: { term: { companyId } },
+            routing: companyId,
+          },
+        })
+      )
+        .then((result) => {
+          this.logger.info(`putAlias success – ${name} points to ${index}`);
+
+          resolve(result);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `putAlias error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Adds the filtered alias of each written action's company to the shared
+   * index it was written to, once per index and company. Runs after writes,
+   * since the shared index may only have been created by the write.
+   * @param {OpenSearchAction[]} actions written actions
+   * @returns {Promise<void>} nothing; failures are logged and retried on the next write
+   */
+  async ensureTenantAliases(actions: OpenSearchAction[]): Promise<void> {
+    if (this._tenancy !== "shared") {
+      return;
+    }
+
+    const pending = new Map<string, { index: string; companyId: string }>();
+    actions.forEach((action) => {
+      if (!action.companyId) {
+        return;
+      }
+
+      const index = this.getIndexName(action);
+      const key = `${index}/${action.companyId}`;
+      if (!this._tenantAliases.has(key)) {
+        pending.set(key, { index, companyId: action.companyId });
+      }
+    });
+
+    for (const [key, { index, companyId }] of pending) {
+      const name = this.getTenantAliasName(companyId);
+
+      await this._client.indices
+        .putAlias({
+          index,
+          name,
+          body: {
+            filter: { term: { companyId } },
+            routing: companyId,
+          },
+        })
+        .then(() => {
+          this._tenantAliases.add(key);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `putAlias error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+        });
+    }
+  }
+
+  /**
+   * Maps per-company indices to the shared indices their actions belong in
+   * @param {string[]} indices per-company index names following _indexPattern
+   * @param {string} companyId only this company's indices; every company's if not set
+   * @returns source and destination index pairs; indices not following the pattern are skipped
+   */
+  planSharedTenancyMigration(
+    indices: string[],
+    companyId?: string
+  ): Array<{ source: string; destination: string }> {
+    const tokens: Record<string, string> = {
+      companyId: "(?<companyId>.+?)",
+      app: "(?<app>.+?)",
+      environment: "(?<environment>.+?)",
+      clientId: "(?<clientId>.+?)",
+      year: "(?<year>\\d{4})",
+      quarter: "(?<quarter>\\d)",
+      month: "(?<month>\\d{2})",
+      week: "(?<week>\\d{2})",
+      day: "(?<day>\\d{2})",
+    };
+
+    const toMatcher = (pattern: string) =>
+      new RegExp(
+        `^${pattern
+          .split(/(\{[a-zA-Z]+\})/)
+          .map((part) => {
+            const token = part.match(/^\{([a-zA-Z]+)\}$/)?.[1];
+            return token && tokens[token]
+              ? tokens[token]
+              : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          })
+          .join("")}$`
+      );
+
+    const matcher = toMatcher(this._indexPattern);
+    const sharedMatcher = toMatcher(this._sharedIndexPattern);
+
+    return indices.flatMap((source) => {
+      const groups = source.match(matcher)?.groups;
+      // shared indices also match the per-company pattern when companyId is a wildcard
+      if (!groups || sharedMatcher.test(source)) {
+        return [];
+      }
+      // the wildcard for "acme" also lists e.g. "acme_corp"'s indices
+      if (companyId && groups.companyId !== companyId) {
+        return [];
+      }
+
+      return [
+        {
+          source,
+          destination: this._sharedIndexPattern.replace(
+            /\{(app|environment|clientId|year|quarter|month|week|day)\}/g,
+            (token, name) => groups[name] || token
+          ),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Copies actions from the per-company indices into the shared indices,
+   * routed by companyId. Run it while still writing in "index" tenancy, then
+   * switch the engine to "shared" tenancy and call finishSharedTenancyMigration.
+   * @param {SharedTenancyMigrationOptions} options
+   * @returns {SharedTenancyMigrationResult[]} one result per source index
+   */
+  async migrateToSharedTenancy(
+    options: SharedTenancyMigrationOptions = {}
+  ): Promise<SharedTenancyMigrationResult[]> {
+    const plan = await this.getSharedTenancyMigrationPlan(options.companyId);
+    const results: SharedTenancyMigrationResult[] = [];
+
+    for (const { source, destination } of plan) {
+      const migrated = options.dryRun
+        ? 0
+        : await this.reindexToSharedIndex(source, destination);
+
+      results.push({ source, destination, migrated, deleted: false });
+      options.onProgress?.(results[results.length - 1]);
+    }
+
+    return results;
+  }
+
+  /**
+   * Deletes the per-company indices once every writer uses "shared" tenancy.
+   * Each index is copied once more first (already migrated actions are
+   * skipped), so actions written during the migration aren't lost.
+   * @param {SharedTenancyMigrationOptions} options
+   * @returns {SharedTenancyMigrationResult[]} one result per source index
+   */
+  async finishSharedTenancyMigration(
+    options: SharedTenancyMigrationOptions = {}
+  ): Promise<SharedTenancyMigrationResult[]> {
+    const plan = await this.getSharedTenancyMigrationPlan(options.companyId);
+    const results: SharedTenancyMigrationResult[] = [];
+
+    for (const { source, destination } of plan) {
+      if (options.dryRun) {
+        results.push({ source, destination, migrated: 0, deleted: false });
+        options.onProgress?.(results[results.length - 1]);
+        continue;
+      }
+
+      const migrated = await this.reindexToSharedIndex(source, destination);
+
+      await new Promise(async (resolve, reject) => {
+        await this._client.indices
+          .delete({ index: source })
+          .then((result) => {
+            this.logger.info(`finishSharedTenancyMigration deleted ${source}`);
+
+            resolve(result);
+          })
+          .catch((err) => {
+            this.logger.error(
+              `indices.delete error: ${err.statusCode} ${err.name} ${
+                err.message
+              } ${JSON.stringify(err.body)}`
+            );
+
+            reject(toOpenSearchEngineError(err));
+          });
+      });
+
+      results.push({ source, destination, migrated, deleted: true });
+      options.onProgress?.(results[results.length - 1]);
+    }
+
+    return results;
+  }
+
+  /**
+   * Lists the per-company indices and the shared indices they migrate to
+   * @param {string} companyId only this company's indices; every company's if not set
+   * @returns source and destination index pairs
+   */
+  async getSharedTenancyMigrationPlan(
+    companyId?: string
+  ): Promise<Array<{ source: string; destination: string }>> {
+    const pattern = this._indexPattern
+      .replace(/\{companyId\}/g, companyId || "*")
+      .replace(/\{[a-zA-Z]+\}/g, "*");
+
+    const indices = (await new Promise(async (resolve, reject) => {
+      await this._client.cat
+        .indices({ index: pattern, format: "json" })
+        .then((result: any) => {
+          resolve(result?.body?.map((index: any) => index.index) || []);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `migrateToSharedTenancy error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    })) as string[];
+
+    return this.planSharedTenancyMigration(indices.sort(), companyId);
+  }
+
+  /**
+   * Copies a per-company index into a shared index, routed by companyId.
+   * Actions that were already copied are skipped.
+   * @param {string} source
+   * @param {string} destination
+   * @returns {number} number of actions in the shared index, copied now or before
+   */
+  async reindexToSharedIndex(
+    source: string,
+    destination: string
+  ): Promise<number> {
+    return new Promise(async (resolve, reject) => {
+      await this._client
+        .reindex({
+          wait_for_completion: true,
+          refresh: true,
+          body: {
+            conflicts: "proceed",
+            source: { index: source },
+            dest: { index: destination, op_type: "create" },
+            script: {
+              lang: "painless",
+              source: "ctx._routing = ctx._source.companyId",
+            },
+          },
+        })
+        .then((result: any) => {
+          this.logger.info(
+            `migrateToSharedTenancy reindexed ${source} into ${destination}: ${JSON.stringify(
+              result?.body
+            )}`
+          );
+
+          if (result?.body?.failures?.length) {
+            return reject(
+              new OpenSearchEngineError(
+                `reindex ${source} failed: ${JSON.stringify(
+                  result.body.failures
+                )}`
+              )
+            );
+          }
+
+          // already migrated actions count as version conflicts
+          resolve(
+            (result?.body?.created || 0) +
+              (result?.body?.version_conflicts || 0)
+          );
+        })
+        .catch((err) => {
+          this.logger.error(
+            `reindex error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    });
+  }
+
+  /**
+   * Gets the data stream a company's actions are written to in dataStream storage mode
+   * @param {string} companyId
+   * @returns
+   */
+  getDataStreamName(companyId: string): string {
+    return this._dataStreamPattern.replace(/\{companyId\}/g, companyId);
+  }
+
+  /**
+   * Creates the action index dynamic template
+   * @returns {Promise<boolean>} whether the template was created
+   */
+  async createIndexTemplates(): Promise<boolean> {
+    if (!this._client) {
+      return false;
+    }
+
+    return new Promise(async (resolve) => {
+      this._client.indices
+        .putIndexTemplate({
+          name: this._indexTemplateName,
+          body: {
+            index_patterns: [this._indexTemplatePattern],
+            ...(this._storageMode === "dataStream"
+              ? { data_stream: { timestamp_field: { name: "timestamp" } } }
+              : {}),
+            template: {
+              settings: {
+                index: {
+                  number_of_shards: this._indexTemplateNumShards,
+                  number_of_replicas: this._indexTemplateNumReplicas,
+                },
+              },
+              mappings: {
+                _meta: { version: INDEX_MAPPING_VERSION },
+                properties: INDEX_MAPPING,
+              },
+            },
+          },
+        })
+        .then((template) => {
+          this.logger.info(
+            `putIndexTemplate success – index template created!`
+          );
+
+          resolve(true);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `putIndexTemplate error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error; init() reports it
+          this._setupErrors.push(toOpenSearchEngineError(err));
+          resolve(false);
+        });
+    });
+  }
+
+  /**
+   * Creates the action index dynamic template, if it doesn't exist already or doesn't match
+   * @returns {Promise<boolean>} whether the template (and ISM policy) match now
+   */
+  async upsertIndexTemplates(): Promise<boolean> {
+    if (!this._client) {
+      return false;
+    }
+
+    const template = await new Promise(async (resolve) => {
+      await this._client.indices
+        .getIndexTemplate({
+          name: this._indexTemplateName,
+        })
+        .then((result: any) => {
+          const indexTemplate =
+            result?.body?.index_templates?.[0]?.index_template;
+          const template = indexTemplate?.template?.mappings?.properties; // LOL
+
+          if (
+            template &&
+            !!indexTemplate?.data_stream !==
+              (this._storageMode === "dataStream")
+          ) {
+            this.logger.debug(
+              `getIndexTemplate already exists but does not match storage mode ${this._storageMode}`
+            );
+
+            return resolve(null);
+          }
+
+          if (template) {
+            if (
+              deepCompareObjects(template, INDEX_MAPPING) &&
+              indexTemplate?.template?.mappings?._meta?.version ===
+                INDEX_MAPPING_VERSION
+            ) {
+              this.logger.debug(
+                "getIndexTemplate already exists & matches mapping"
+              );
+            } else {
+              this.logger.debug(
+                `getIndexTemplate already exists but does not match: ${JSON.stringify(
+                  template
+                )}`
+              );
+
+              return resolve(null);
+            }
+          }
+
+          resolve(template);
+        })
+        .catch((err) => {
+          this.logger.info(`getIndexTemplate does not exist; creating now`);
+
+          // don't throw an error
+          resolve(null);
+        });
+    });
+
+    const created = template ? true : await this.createIndexTemplates();
+
+    if (this._indexLifecyclePolicy || this._dataStreamRollover) {
+      return (await this.upsertIndexLifecyclePolicy()) && created;
+    }
+
+    return created;
+  }
+
+  /**
+   * Returns the ISM policy for the action indices: hot, then warm (fewer
+   * replicas, force merged), then deleted. In dataStream storage mode the hot
+   * state also rolls the data stream over. Its ism_template attaches it to
+   * every new index matching _indexTemplatePattern.
+   * @returns the policy
+   */
+  buildIndexLifecyclePolicy(): Record<string, any> {
+    const options = this._indexLifecyclePolicy;
+    const rollover =
+      this._storageMode === "dataStream" ? this._dataStreamRollover : undefined;
+
+    // set explicitly so the policy read back from OpenSearch compares equal
+    const retry = { count: 3, backoff: "exponential", delay: "1m" };
+
+    const deleteAfterDays = options?.deleteAfterMonths
+      ? options.deleteAfterMonths * 30
+      : undefined;
+
+    return {
+      description: `${this._indexTemplateName} lifecycle`,
+      default_state: "hot",
+      states: [
+        {
+          name: "hot",
+          actions: rollover
+            ? [
+                {
+                  retry,
+                  rollover: {
+                    ...(rollover.maxSize ? { min_size: rollover.maxSize } : {}),
+                    ...(rollover.maxAge
+                      ? { min_index_age: rollover.maxAge }
+                      : {}),
+                    ...(rollover.maxDocs
+                      ? { min_doc_count: rollover.maxDocs }
+                      : {}),
+                  },
+                },
+              ]
+            : [],
+          transitions: options
+            ? [
+                {
+                  state_name: "warm",
+                  conditions: {
+                    min_index_age: `${options.warmAfterDays ?? 30}d`,
+                  },
+                },
+              ]
+            : [],
+        },
+        ...(options
+          ? [
+              {
+                name: "warm",
+                actions: [
+                  {
+                    retry,
+                    replica_count: {
+                      number_of_replicas: options.warmNumReplicas ?? 0,
+                    },
+                  },
+                  {
+                    retry,
+                    force_merge: {
+                      max_num_segments: options.warmMaxNumSegments ?? 1,
+                    },
+                  },
+                ],
+                transitions: deleteAfterDays
+                  ? [
+                      {
+                        state_name: "delete",
+                        conditions: { min_index_age: `${deleteAfterDays}d` },
+                      },
+                    ]
+                  : [],
+              },
+            ]
+          : []),
+        ...(deleteAfterDays
+          ? [
+              {
+                name: "delete",
+                actions: [{ retry, delete: {} }],
+                transitions: [],
+              },
+            ]
+          : []),
+      ],
+      ism_template: [
+        {
+          // data stream backing indices are named .ds-{data stream}-{generation}
+          index_patterns: [
+            this._storageMode === "dataStream"
+              ? `.ds-${this._indexTemplatePattern}`
+              : this._indexTemplatePattern,
+          ],
+          priority: 100,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Creates or updates the ISM policy for the action indices, if it doesn't exist already or doesn't match
+   * @returns {Promise<boolean>} whether the policy matches now
+   */
+  async upsertIndexLifecyclePolicy(): Promise<boolean> {
+    if (
+      !this._client ||
+      (!this._indexLifecyclePolicy && !this._dataStreamRollover)
+    ) {
+      return !!this._client;
+    }
+
+    const policyId = this.getIndexLifecyclePolicyId();
+    const policy = this.buildIndexLifecyclePolicy();
+
+    const existing: any = await new Promise(async (resolve) => {
+      await this._client.http
+        .get({ path: `/_plugins/_ism/policies/${policyId}` })
+        .then((result: any) => {
+          resolve(result?.body);
+        })
+        .catch((err) => {
+          this.logger.info(`getPolicy does not exist; creating now`);
+
+          // don't throw an error
+          resolve(null);
+        });
+    });
+
+    if (existing?.policy) {
+      const matches = deepCompareObjects(
+        {
+          default_state: existing.policy.default_state,
+          states: existing.policy.states,
+          ism_template: existing.policy.ism_template?.map((template: any) => ({
+            index_patterns: template.index_patterns,
+            priority: template.priority,
+          })),
+        },
+        {
+          default_state: policy.default_state,
+          states: policy.states,
+          ism_template: policy.ism_template,
+        }
+      );
+
+      if (matches) {
+        this.logger.debug("getPolicy already exists & matches policy");
+        return true;
+      }
+
+      this.logger.debug(
+        `getPolicy already exists but does not match: ${JSON.stringify(
+          existing.policy
+        )}`
+      );
+    }
+
+    return new Promise(async (resolve) => {
+      await this._client.http
+        .put({
+          path: `/_plugins/_ism/policies/${policyId}`,
+          // updating requires the current sequence number
+          ...(existing?.policy
+            ? {
+                querystring: {
+                  if_seq_no: existing._seq_no,
+                  if_primary_term: existing._primary_term,
+                },
+              }
+            : {}),
+          body: { policy },
+        })
+        .then((result) => {
+          this.logger.info(`putPolicy success – ${policyId} saved!`);
+
+          resolve(true);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `putPolicy error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error; init() reports it
+          this._setupErrors.push(toOpenSearchEngineError(err));
+          resolve(false);
+        });
+    });
+  }
+
+  /**
+   * Gets the id of the ISM policy for the action indices
+   * @returns
+   */
+  getIndexLifecyclePolicyId(): string {
+    return (
+      this._indexLifecyclePolicy?.policyId ||
+      `${this._indexTemplateName}_lifecycle`
+    );
+  }
+
+  /**
+   * Updates one existing action index mapping, if necessary
+   * @returns {Promise<boolean>} whether the mapping matches now
+   */
+  async updateIndexMapping(index: string): Promise<boolean> {
     if (!this._client) {
-      return;
+      return false;
     }
 
-    const template = await new Promise(async (resolve) => {
+    const matches = await new Promise(async (resolve) => {
       await this._client.indices
-        .getIndexTemplate({
-          name: this._indexTemplateName,
+        .get({
+          index,
         })
         .then((result: any) => {
-          const template =
-            result?.body?.index_templates?.[0]?.index_template?.template
-              ?.mappings?.properties; // LOL
+          const mapping = result?.body?.[index]?.mappings?.properties;
 
-          if (template) {
-            if (deepCompareObjects(template, INDEX_MAPPING)) {
+          if (mapping) {
+            if (
+              deepCompareObjects(mapping, INDEX_MAPPING) &&
+              result?.body?.[index]?.mappings?._meta?.version ===
+                INDEX_MAPPING_VERSION
+            ) {
               this.logger.debug(
-                "getIndexTemplate already exists & matches mapping"
+                `updateIndexMapping(${index}) already exists & matches mapping`
               );
             } else {
               this.logger.debug(
-                `getIndexTemplate already exists but does not match: ${JSON.stringify(
-                  template
+                `updateIndexMapping(${index}) already exists but does not match: ${JSON.stringify(
+                  mapping
                 )}`
               );
 
@@ -579,135 +2782,547 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
             }
           }
 
-          resolve(template);
+          resolve(mapping);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `updateIndexMapping error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error
+          resolve(null);
+        });
+    });
+
+    if (matches) {
+      return true;
+    }
+
+    // put mapping
+    return new Promise(async (resolve) => {
+      await this._client.indices
+        .putMapping({
+          index,
+          body: {
+            _meta: { version: INDEX_MAPPING_VERSION },
+            properties: INDEX_MAPPING,
+          },
+        })
+        .then((result: any) => {
+          this.logger.info(
+            `updateIndexMapping(${index}) mapping updated to match template`
+          );
+
+          resolve(true);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `updateIndexMapping(${index}) error: ${err.statusCode} ${
+              err.name
+            } ${err.message} ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error; init() reports it. OpenSearch rejects
+          // incompatible mapping changes with a 400
+          const error = toOpenSearchEngineError(err);
+          this._setupErrors.push(
+            error.statusCode === 400
+              ? new MappingConflictError(
+                  `index ${index} mapping can't be updated: ${error.message}`,
+                  error
+                )
+              : error
+          );
+          resolve(false);
+        });
+    });
+  }
+
+  /**
+   * Updates any existing action index mappings, if necessary
+   * @returns {Promise<boolean>} whether every mapping matches now
+   */
+  async updateIndexMappings(): Promise<boolean> {
+    if (!this._client) {
+      return false;
+    }
+
+    const indices = (await new Promise(async (resolve) => {
+      await this._client.cat
+        .indices({ index: this._indexTemplatePattern, format: "json" })
+        .then((result: any) => {
+          this.logger.debug(
+            `updateIndexMappings found ${result?.body?.length} indices`
+          );
+
+          // versions kept closed after a migration can't be updated
+          resolve(
+            result?.body
+              ?.filter((index: any) => index.status !== "close")
+              .map((index: any) => index.index)
+          );
+        })
+        .catch((err) => {
+          this.logger.error(
+            `updateIndexMappings error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          // don't throw an error; init() reports it
+          this._setupErrors.push(toOpenSearchEngineError(err));
+          resolve(null);
+        });
+    })) as string[] | null;
+
+    if (!indices) {
+      return false;
+    }
+
+    const updated = await Promise.all(
+      indices.map((index) => this.updateIndexMapping(index))
+    );
+
+    return updated.every((success) => success);
+  }
+
+  /**
+   * Reports how far the index template and every action index have drifted
+   * from INDEX_MAPPING: the mapping version stored in each one's _meta, and a
+   * field-level diff of missing, extra and conflicting fields
+   * @returns {MappingStatus} status
+   */
+  async getMappingStatus(): Promise<MappingStatus> {
+    const [template, indices] = (await Promise.all([
+      new Promise(async (resolve, reject) => {
+        await this._client.indices
+          .getIndexTemplate({ name: this._indexTemplateName })
+          .then((result: any) => {
+            resolve(
+              result?.body?.index_templates?.[0]?.index_template?.template
+                ?.mappings
+            );
+          })
+          .catch((err) => {
+            // a missing template is reported, not thrown
+            if (err.statusCode === 404) {
+              return resolve(undefined);
+            }
+
+            this.logger.error(
+              `getMappingStatus error: ${err.statusCode} ${err.name} ${
+                err.message
+              } ${JSON.stringify(err.body)}`
+            );
+
+            reject(toOpenSearchEngineError(err));
+          });
+      }),
+      new Promise(async (resolve, reject) => {
+        await this._client.indices
+          .get({ index: this._indexTemplatePattern })
+          .then((result: any) => {
+            resolve(result?.body || {});
+          })
+          .catch((err) => {
+            this.logger.error(
+              `getMappingStatus error: ${err.statusCode} ${err.name} ${
+                err.message
+              } ${JSON.stringify(err.body)}`
+            );
+
+            reject(toOpenSearchEngineError(err));
+          });
+      }),
+    ])) as [Record<string, any> | undefined, Record<string, any>];
+
+    const getStatus = (mappings?: Record<string, any>) => {
+      const diff = diffMappings(mappings?.properties, INDEX_MAPPING);
+      const version = mappings?._meta?.version;
+
+      return {
+        version,
+        current:
+          version === INDEX_MAPPING_VERSION &&
+          !diff.missing.length &&
+          !diff.conflicting.length,
+        diff,
+      };
+    };
+
+    return {
+      version: INDEX_MAPPING_VERSION,
+      template: template
+        ? { name: this._indexTemplateName, ...getStatus(template) }
+        : undefined,
+      indices: Object.keys(indices)
+        .sort()
+        .map((index) => ({ index, ...getStatus(indices[index]?.mappings) })),
+    };
+  }
+
+  /**
+   * Migrates every action index whose mapping differs from INDEX_MAPPING.
+   * Missing fields are added in place. Indices with conflicting fields (which
+   * putMapping rejects) are reindexed into a new versioned index, e.g.
+   * actions_company123_2024_09_v2, and an alias with the original name is
+   * swapped over to it atomically. Writes to an index while it's reindexed
+   * aren't copied over, so pause them first.
+   * @param {MappingMigrationOptions} options
+   * @returns {MappingMigrationResult[]} one result per index
+   */
+  async migrateIndexMappings(
+    options: MappingMigrationOptions = {}
+  ): Promise<MappingMigrationResult[]> {
+    const indices = (await new Promise(async (resolve, reject) => {
+      await this._client.indices
+        .get({ index: this._indexTemplatePattern })
+        .then((result: any) => {
+          resolve(result?.body || {});
+        })
+        .catch((err) => {
+          this.logger.error(
+            `migrateIndexMappings error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
+
+          reject(toOpenSearchEngineError(err));
+        });
+    })) as Record<string, any>;
+
+    const results: MappingMigrationResult[] = [];
+
+    for (const index of Object.keys(indices).sort()) {
+      // skip old versions kept after a migration; they no longer hold the alias
+      const { alias } = this.getNextIndexVersion(index);
+      if (index !== alias && !indices[index]?.aliases?.[alias]) {
+        continue;
+      }
+
+      const diff = diffMappings(
+        indices[index]?.mappings?.properties,
+        INDEX_MAPPING
+      );
+
+      let result: MappingMigrationResult;
+      if (diff.conflicting.length) {
+        result = {
+          index,
+          diff,
+          operation: "reindex",
+          ...this.getNextIndexVersion(index),
+        };
+
+        if (!options.dryRun) {
+          result = {
+            ...result,
+            ...(await this.reindexIndexMapping(
+              index,
+              result.destination as string,
+              result.alias as string,
+              !!options.deleteOld
+            )),
+          };
+        }
+      } else if (
+        diff.missing.length ||
+        indices[index]?.mappings?._meta?.version !== INDEX_MAPPING_VERSION
+      ) {
+        result = { index, diff, operation: "putMapping" };
+
+        if (!options.dryRun) {
+          await this.updateIndexMapping(index);
+        }
+      } else {
+        result = { index, diff, operation: "none" };
+      }
+
+      results.push(result);
+      options.onProgress?.(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Gets the alias reads & writes use for an index, and the next versioned index behind it
+   * @param {string} index e.g. actions_company123_2024_09 or actions_company123_2024_09_v2
+   * @returns {{ alias: string, destination: string }}
+   */
+  getNextIndexVersion(index: string): { alias: string; destination: string } {
+    const [, alias, version] = index.match(/^(.+?)(?:_v(\d+))?$/) || [];
+
+    return {
+      alias,
+      destination: `${alias}_v${version ? parseInt(version) + 1 : 2}`,
+    };
+  }
+
+  /**
+   * Creates the destination index with INDEX_MAPPING, reindexes into it and
+   * swaps the alias over to it. A destination left by an earlier run is
+   * deleted first, so it can't serve actions deleted from the source since,
+   * and the destination is deleted again if the reindex fails. Without
+   * deleteOld, a previous version is closed rather than deleted so searches
+   * don't match its actions twice, and an un-versioned source is left alone:
+   * the alias can only take its name once it's deleted.
+   * @param {string} source
+   * @param {string} destination
+   * @param {string} alias
+   * @param {boolean} deleteOld
+   * @returns {{ migrated: number, deleted: boolean, closed: boolean, swapped: boolean }}
+   */
+  async reindexIndexMapping(
+    source: string,
+    destination: string,
+    alias: string,
+    deleteOld: boolean
+  ): Promise<{
+    migrated: number;
+    deleted: boolean;
+    closed: boolean;
+    swapped: boolean;
+  }> {
+    if (source === alias && !deleteOld) {
+      this.logger.warn(
+        `reindexIndexMapping kept ${source}; migrate with deleteOld to replace it with an alias to ${destination}`
+      );
+
+      return { migrated: 0, deleted: false, closed: false, swapped: false };
+    }
+
+    const migrated: number = await new Promise(async (resolve, reject) => {
+      await this._client.indices
+        .delete({ index: destination, ignore_unavailable: true })
+        .then(() =>
+          this._client.indices.create({
+            index: destination,
+            body: {
+              mappings: {
+                _meta: { version: INDEX_MAPPING_VERSION },
+                properties: INDEX_MAPPING,
+              },
+            },
+          })
+        )
+        .then(() =>
+          this._client.reindex({
+            wait_for_completion: true,
+            refresh: true,
+            body: {
+              // a half-copied index must not take the alias
+              conflicts: "abort",
+              source: { index: source },
+              dest: { index: destination },
+            },
+          })
+        )
+        .then((result: any) => {
+          this.logger.info(
+            `reindexIndexMapping reindexed ${source} into ${destination}: ${JSON.stringify(
+              result?.body
+            )}`
+          );
+
+          if (result?.body?.failures?.length) {
+            throw new OpenSearchEngineError(
+              `reindex ${source} failed: ${JSON.stringify(
+                result.body.failures
+              )}`
+            );
+          }
+
+          resolve(result?.body?.created || 0);
         })
-        .catch((err) => {
-          this.logger.info(`getIndexTemplate does not exist; creating now`);
+        .catch(async (err) => {
+          this.logger.error(
+            `reindexIndexMapping error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
 
-          // don't throw an error
-          resolve(null);
+          await this._client.indices
+            .delete({ index: destination, ignore_unavailable: true })
+            .catch((deleteErr) => {
+              this.logger.error(
+                `reindexIndexMapping could not delete ${destination}: ${
+                  deleteErr.statusCode
+                } ${deleteErr.name} ${deleteErr.message} ${JSON.stringify(
+                  deleteErr.body
+                )}`
+              );
+            });
+
+          reject(toOpenSearchEngineError(err));
         });
     });
 
-    if (template) {
-      return;
-    }
+    await new Promise(async (resolve, reject) => {
+      await this._client.indices
+        .updateAliases({
+          body: {
+            actions: [
+              { add: { index: destination, alias } },
+              deleteOld
+                ? { remove_index: { index: source } }
+                : { remove: { index: source, alias } },
+            ],
+          },
+        })
+        .then((result: any) => {
+          this.logger.info(
+            `reindexIndexMapping alias ${alias} now points to ${destination}`
+          );
 
-    await this.createIndexTemplates();
+          resolve(result);
+        })
+        .catch((err) => {
+          this.logger.error(
+            `updateAliases error: ${err.statusCode} ${err.name} ${
+              err.message
+            } ${JSON.stringify(err.body)}`
+          );
 
-    return;
-  }
+          reject(toOpenSearchEngineError(err));
+        });
+    });
 
-  /**
-   * Updates one existing action index mapping, if necessary
-   * @returns {Promise<void>} nothing
-   */
-  async updateIndexMapping(index: string): Promise<void> {
-    if (!this._client) {
-      return;
+    if (deleteOld) {
+      return { migrated, deleted: true, closed: false, swapped: true };
     }
 
-    const matches = await new Promise(async (resolve) => {
+    // wildcard searches only match open indices
+    await new Promise(async (resolve, reject) => {
       await this._client.indices
-        .get({
-          index,
-        })
+        .close({ index: source })
         .then((result: any) => {
-          const mapping = result?.body?.[index]?.mappings?.properties;
-
-          if (mapping) {
-            if (deepCompareObjects(mapping, INDEX_MAPPING)) {
-              this.logger.debug(
-                `updateIndexMapping(${index}) already exists & matches mapping`
-              );
-            } else {
-              this.logger.debug(
-                `updateIndexMapping(${index}) already exists but does not match: ${JSON.stringify(
-                  mapping
-                )}`
-              );
-
-              return resolve(null);
-            }
-          }
+          this.logger.info(`reindexIndexMapping closed ${source}`);
 
-          resolve(mapping);
+          resolve(result);
         })
         .catch((err) => {
           this.logger.error(
-            `updateIndexMapping error: ${err.statusCode} ${err.name} ${
-              err.message
-            } ${JSON.stringify(err.body)}`
+            `reindexIndexMapping could not close ${source}: ${err.statusCode} ${
+              err.name
+            } ${err.message} ${JSON.stringify(err.body)}`
           );
 
-          // don't throw an error
-          resolve(null);
+          reject(toOpenSearchEngineError(err));
         });
     });
 
-    if (!matches) {
-      // put mapping
-      await new Promise(async (resolve) => {
-        await this._client.indices
-          .putMapping({
-            index,
-            body: { properties: INDEX_MAPPING },
-          })
-          .then((result: any) => {
-            this.logger.info(
-              `updateIndexMapping(${index}) mapping updated to match template`
-            );
+    return { migrated, deleted: false, closed: true, swapped: true };
+  }
 
-            resolve(result);
-          })
-          .catch((err) => {
-            this.logger.error(
-              `updateIndexMapping(${index}) error: ${err.statusCode} ${
-                err.name
-              } ${err.message} ${JSON.stringify(err.body)}`
-            );
+  /**
+   * Calls an OpenSearch operation, retrying transient errors with exponential backoff
+   * @param {string} operation name used in logs
+   * @param {Function} fn makes the call
+   * @returns the call's result
+   */
+  async withRetry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err: any) {
+        if (!this.isRetryableError(err) || attempt >= this._retry.maxAttempts) {
+          throw err;
+        }
 
-            // don't throw an error
-            resolve(null);
-          });
-      });
+        const delay = this.getRetryDelay(attempt);
+
+        this.logger.warn(
+          `${operation} error: ${err.statusCode} ${err.name} ${
+            err.message
+          }; retrying in ${delay}ms (attempt ${attempt + 1} of ${
+            this._retry.maxAttempts
+          })`
+        );
+
+        await sleep(delay);
+      }
     }
   }
 
   /**
-   * Updates any existing action index mappings, if necessary
-   * @returns {Promise<void>} nothing
+   * Whether a write failed because a document with its id already exists
+   * @param {number} status
+   * @param {string} type OpenSearch error type
+   * @returns
    */
-  async updateIndexMappings(): Promise<void> {
-    if (!this._client) {
-      return;
-    }
+  isVersionConflict(status?: number, type?: string): boolean {
+    return status === 409 && type === "version_conflict_engine_exception";
+  }
 
-    const indices = (await new Promise(async (resolve) => {
-      await this._client.cat
-        .indices({ index: this._indexTemplatePattern, format: "json" })
-        .then((result: any) => {
-          this.logger.debug(
-            `updateIndexMappings found ${result?.body?.length} indices`
-          );
+  /**
+   * Whether an OpenSearch client error is transient and worth retrying
+   * @param {any} err
+   * @returns
+   */
+  isRetryableError(err: any): boolean {
+    return (
+      this._retry.retryableStatusCodes.includes(err?.statusCode) ||
+      ["ConnectionError", "TimeoutError", "NoLivingConnectionsError"].includes(
+        err?.name
+      )
+    );
+  }
 
-          resolve(result?.body?.map((index: any) => index.index));
-        })
-        .catch((err) => {
-          this.logger.error(
-            `updateIndexMappings error: ${err.statusCode} ${err.name} ${
-              err.message
-            } ${JSON.stringify(err.body)}`
-          );
+  /**
+   * Gets how long to wait before the next attempt
+   * @param {number} attempt the attempt that just failed, starting at 1
+   * @returns {number} delay in milliseconds
+   */
+  getRetryDelay(attempt: number): number {
+    const delay = Math.min(
+      this._retry.maxDelay,
+      this._retry.baseDelay * 2 ** (attempt - 1)
+    );
 
-          // don't throw an error
-          resolve([]);
-        });
-    })) as string[];
+    // "full jitter": anywhere between 0 and the exponential delay
+    return this._retry.jitter ? Math.round(Math.random() * delay) : delay;
+  }
 
-    if (indices?.length) {
-      await Promise.all(indices.map((index) => this.updateIndexMapping(index)));
-    }
+  /**
+   * Returns the OpenSearch search body for a FindMany call
+   * @param {HighlightFindActionOptions} options
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns
+   */
+  buildFindManyBody(
+    options: HighlightFindActionOptions,
+    filters: OpenSearchFindActionFilters
+  ): any {
+    const must = this.buildFindManyQuery(options, filters);
+    const query = { bool: { must } };
+
+    return {
+      query,
+      // replaces the query with one that also returns the nested matches
+      ...(options.highlight
+        ? this.buildHighlight(query, options.highlight)
+        : {}),
+      from:
+        ((options.page || 1) - 1) * (options.limit || this._defaultPageSize), // default to page 1
+      size: options.limit || this._defaultPageSize, // default to _defaultPageSize aka 25
+      sort: [
+        // rank text matches by relevance unless a sort is given
+        ...(!options.sortBy &&
+        filters.query &&
+        this.getQueryMode(filters) !== "exact"
+          ? [{ _score: { order: "desc" } }]
+          : []),
+        // default sort by timestamp descending
+        {
+          [options.sortBy || "timestamp"]: {
+            order: options.sortDirection || "desc",
+          },
+        },
+      ],
+    };
   }
 
   /**
@@ -718,7 +3333,7 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
    */
   buildFindManyQuery(
     _options: FindActionOptions,
-    filters: FindActionFilters
+    filters: OpenSearchFindActionFilters
   ): any[] {
     // instantiate companyId and date range filters
     // (defaulting date range to {now - this._defaultStartMonthsAgo} to now)
@@ -768,7 +3383,11 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
     //  - changes.id
     //  - changes.path
     //  - meta.value
-    if (filters.query) {
+    // other query modes also search the names and changes.before/after, see buildTextQuery
+    const queryMode = this.getQueryMode(filters);
+    if (filters.query && queryMode !== "exact") {
+      must.push(this.buildTextQuery(filters.query, queryMode));
+    } else if (filters.query) {
       must.push({
         bool: {
           should: [
@@ -929,6 +3548,359 @@ class OpenSearchEngine extends Engine<OpenSearchAction> {
       });
     }
 
+    must.push(...this.buildFilterClauses(filters));
+
+    // exclude actions matching any of the "not" filters
+    if (filters.not) {
+      const mustNot = this.buildFilterClauses(filters.not);
+      if (mustNot.length) {
+        must.push({
+          bool: {
+            must_not: mustNot,
+          },
+        });
+      }
+    }
+
+    // match the boolean filter tree
+    if (filters.where) {
+      must.push(this.buildFilterTree(filters.where));
+    }
+
+    return must;
+  }
+
+  /**
+   * Returns the OpenSearch query for a boolean filter tree
+   * @param {ActionFilterTree} tree
+   * @returns
+   */
+  buildFilterTree(tree: ActionFilterTree): any {
+    if ("and" in tree) {
+      return {
+        bool: {
+          must: tree.and.map((node) => this.buildFilterTree(node)),
+        },
+      };
+    }
+
+    if ("or" in tree) {
+      // an empty "or" can't match anything
+      if (!tree.or.length) {
+        return { match_none: {} };
+      }
+
+      return {
+        bool: {
+          should: tree.or.map((node) => this.buildFilterTree(node)),
+        },
+      };
+    }
+
+    if ("not" in tree) {
+      return {
+        bool: {
+          must_not: [this.buildFilterTree(tree.not)],
+        },
+      };
+    }
+
+    if ("field" in tree) {
+      return this.buildFieldFilter(tree);
+    }
+
+    const must = this.buildFilterClauses(tree);
+    if (!must.length) {
+      return { match_all: {} };
+    }
+
+    return must.length === 1
+      ? must[0]
+      : {
+          bool: {
+            must,
+          },
+        };
+  }
+
+  /**
+   * Returns the OpenSearch query for a filter on a single mapped field, using
+   * the .keyword subfield of text fields and nesting it for nested paths
+   * @param {ActionFieldFilter} filter
+   * @returns
+   */
+  buildFieldFilter(filter: ActionFieldFilter): any {
+    const { mapping, paths } = this.getFieldMapping(filter.field);
+
+    let field = filter.field;
+    if (mapping.type === "text" && mapping.fields?.keyword) {
+      field = `${field}.keyword`;
+    }
+
+    let query: any;
+    if (typeof filter.wildcard !== "undefined") {
+      query = { wildcard: { [field]: { value: filter.wildcard } } };
+    } else if (typeof filter.value !== "undefined") {
+      query = { term: { [field]: filter.value } };
+    } else {
+      query = {
+        range: {
+          [field]: Object.fromEntries(
+            (["gt", "gte", "lt", "lte"] as const)
+              .filter((key) => typeof filter[key] !== "undefined")
+              .map((key) => [key, filter[key]])
+          ),
+        },
+      };
+    }
+
+    // innermost nested path first
+    return paths.reduceRight(
+      (nestedQuery, path) => ({ nested: { path, query: nestedQuery } }),
+      query
+    );
+  }
+
+  /**
+   * Returns the INDEX_MAPPING entry of a field, and the nested paths it's in
+   * (outermost first)
+   * @param {string} field e.g. "agents.meta.value"
+   * @returns
+   */
+  getFieldMapping(field: string): { mapping: any; paths: string[] } {
+    const paths: string[] = [];
+
+    let mapping: any = { properties: INDEX_MAPPING };
+    field.split(".").forEach((name, i, names) => {
+      mapping = mapping?.properties?.[name];
+      if (mapping?.type === "nested") {
+        paths.push(names.slice(0, i + 1).join("."));
+      }
+    });
+
+    if (!mapping?.type || mapping.type === "nested") {
+      throw new OpenSearchEngineError(`unknown field ${field}`, {
+        statusCode: 400,
+      });
+    }
+
+    return { mapping, paths };
+  }
+
+  /**
+   * Returns the query mode for filters.query
+   * @param {OpenSearchFindActionFilters} filters
+   * @returns
+   */
+  getQueryMode(filters: OpenSearchFindActionFilters): QueryMode {
+    return filters.queryMode || this._queryMode;
+  }
+
+  /**
+   * Returns the OpenSearch query for a prefix, full-text or fuzzy free-text
+   * query. Text fields are matched on their analyzed values and keyword fields
+   * on their whole value, and nested matches score by their best match.
+   * @param {string} query
+   * @param {Exclude<QueryMode, "exact">} mode
+   * @returns
+   */
+  buildTextQuery(query: string, mode: Exclude<QueryMode, "exact">): any {
+    const should = [
+      "id",
+      "app",
+      "environment",
+      "framework.name",
+      "sessionId",
+      "traceIds",
+      "action.id",
+      "action.object",
+      "agents.id",
+      "agents.name",
+      "agents.meta.value",
+      "targets.id",
+      "targets.name",
+      "targets.meta.value",
+      "request.value",
+      "response.body.value",
+      "response.headers.value",
+      "changes.id",
+      "changes.path",
+      "changes.before",
+      "changes.after",
+      "meta.value",
+    ].map((field) => {
+      const { mapping, paths } = this.getFieldMapping(field);
+
+      let fieldQuery: any;
+      if (mapping.type === "text") {
+        fieldQuery =
+          mode === "prefix"
+            ? { match_phrase_prefix: { [field]: { query } } }
+            : {
+                match: {
+                  [field]: {
+                    query,
+                    ...(mode === "fuzzy" ? { fuzziness: "AUTO" } : {}),
+                  },
+                },
+              };
+      } else if (mode === "prefix") {
+        fieldQuery = { prefix: { [field]: { value: query } } };
+      } else if (mode === "fuzzy") {
+        fieldQuery = {
+          fuzzy: { [field]: { value: query, fuzziness: "AUTO" } },
+        };
+      } else {
+        // ids and other keywords only match whole, so rank them above words
+        fieldQuery = { term: { [field]: { value: query, boost: 2 } } };
+      }
+
+      return paths.reduceRight(
+        (nestedQuery, path) => ({
+          nested: { path, query: nestedQuery, score_mode: "max" },
+        }),
+        fieldQuery
+      );
+    });
+
+    return {
+      bool: {
+        should,
+      },
+    };
+  }
+
+  /**
+   * Returns the query with inner hits and the highlight for a FindMany call
+   * highlighting its matches
+   * @param {any} query
+   * @param {HighlightOptions} options
+   * @returns
+   */
+  buildHighlight(query: any, options: HighlightOptions): any {
+    const highlight = {
+      pre_tags: [options.preTag || "<em>"],
+      post_tags: [options.postTag || "</em>"],
+      fragment_size: options.fragmentSize || 100,
+      number_of_fragments: options.numberOfFragments || 5,
+    };
+
+    return {
+      query: this.addInnerHits(query, highlight, options.innerHitsSize || 10),
+      highlight: {
+        ...highlight,
+        // the fields outside of nested paths, besides companyId & timestamp
+        fields: Object.fromEntries(
+          [
+            "id",
+            "clientId",
+            "app",
+            "environment",
+            "framework.name",
+            "framework.version",
+            "sessionId",
+            "traceIds",
+            "action.id",
+            "action.type",
+            "action.verb",
+            "action.object",
+            "action.object.keyword",
+            "response.status",
+            "cost.currency",
+          ].map((field) => [field, {}])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Returns a copy of a query that highlights the matches of its nested
+   * queries with inner_hits. Excluded (must_not) queries are left alone.
+   * @param {any} query
+   * @param {any} highlight pre_tags, post_tags, fragment_size & number_of_fragments
+   * @param {number} size number of inner hits per nested query
+   * @returns
+   */
+  addInnerHits(query: any, highlight: any, size: number): any {
+    // inner_hits names must be unique within a search
+    let count = 0;
+
+    const visit = (node: any): any => {
+      if (Array.isArray(node)) {
+        return node.map(visit);
+      }
+      if (!node || typeof node !== "object") {
+        return node;
+      }
+
+      return Object.fromEntries(
+        Object.entries(node).map(([key, value]: [string, any]) => {
+          if (key === "must_not") {
+            return [key, value];
+          }
+          if (key === "nested") {
+            return [
+              key,
+              {
+                ...value,
+                query: visit(value.query),
+                inner_hits: {
+                  name: `${value.path}_${count++}`,
+                  size,
+                  _source: false,
+                  highlight: {
+                    ...highlight,
+                    fields: { [`${value.path}.*`]: {} },
+                  },
+                },
+              },
+            ];
+          }
+          return [key, visit(value)];
+        })
+      );
+    };
+
+    return visit(query);
+  }
+
+  /**
+   * Returns the highlighted fragments of a search hit and its inner hits by
+   * field, merging .keyword subfields into their field
+   * @param {any} hit
+   * @returns
+   */
+  getHighlights(hit: any): Record<string, string[]> {
+    const highlights: Record<string, string[]> = {};
+
+    const collect = (hit: any) => {
+      Object.entries(hit?.highlight || {}).forEach(
+        ([field, fragments]: [string, any]) => {
+          const key = field.replace(/\.keyword$/, "");
+          highlights[key] = Array.from(
+            new Set([...(highlights[key] || []), ...fragments])
+          );
+        }
+      );
+
+      Object.values(hit?.inner_hits || {}).forEach((innerHits: any) => {
+        innerHits?.hits?.hits?.forEach(collect);
+      });
+    };
+    collect(hit);
+
+    return highlights;
+  }
+
+  /**
+   * Returns the OpenSearch queries for every filter besides companyId, the
+   * date range and the free-text query. Actions must match all of them.
+   * @param {ActionFilterClauses} filters
+   * @returns
+   */
+  buildFilterClauses(filters: ActionFilterClauses): any[] {
+    const must: any[] = [];
+
     // add other simple filters
     ["id", "clientId", "app", "environment", "sessionId", "traceIds"].forEach(
       (key) => {
@@ -0,0 +1,244 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ZodError, ZodIssue } from "zod";
+
+import { OpenSearchAction } from "./action";
+import { BulkCreateFailure, BulkCreateResult } from "./types";
+
+type OpenSearchErrorDetails = {
+  statusCode?: number;
+  type?: string; // OpenSearch error type, e.g. version_conflict_engine_exception
+  reason?: string; // OpenSearch reason
+  cause?: unknown; // the client error
+};
+
+/**
+ * Base class for every error the engine throws, carrying the OpenSearch status
+ * code and reason when the error came from OpenSearch
+ */
+class OpenSearchEngineError extends Error {
+  statusCode?: number;
+  type?: string;
+  reason?: string;
+  cause?: unknown;
+
+  constructor(message: string, details: OpenSearchErrorDetails = {}) {
+    super(message);
+    this.name = "OpenSearchEngineError";
+    this.statusCode = details.statusCode;
+    this.type = details.type;
+    this.reason = details.reason;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Thrown when an action fails schema validation, before anything is sent to OpenSearch
+ */
+class ValidationError extends OpenSearchEngineError {
+  issues: ZodIssue[];
+
+  constructor(error: ZodError) {
+    const reason = error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+
+    super(`invalid action: ${reason}`, {
+      statusCode: 400,
+      type: "validation_error",
+      reason,
+      cause: error,
+    });
+    this.name = "ValidationError";
+    this.issues = error.issues;
+  }
+}
+
+/**
+ * Thrown when an index (or alias or data stream) doesn't exist
+ */
+class IndexNotFoundError extends OpenSearchEngineError {
+  index?: string;
+
+  constructor(index: string | undefined, details: OpenSearchErrorDetails = {}) {
+    super(`index ${index} not found`, { statusCode: 404, ...details });
+    this.name = "IndexNotFoundError";
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when a write conflicts with the current version of a document, or an
+ * action with the same id already exists in a data stream
+ */
+class ConflictError extends OpenSearchEngineError {
+  constructor(message: string, details: OpenSearchErrorDetails = {}) {
+    super(message, { statusCode: 409, ...details });
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Thrown when OpenSearch rejects a request because it's overloaded, after retries
+ */
+class RateLimitedError extends OpenSearchEngineError {
+  constructor(message: string, details: OpenSearchErrorDetails = {}) {
+    super(message, { statusCode: 429, ...details });
+    this.name = "RateLimitedError";
+  }
+}
+
+/**
+ * Thrown when a document or mapping update doesn't fit an index's existing
+ * mapping; see migrateIndexMappings
+ */
+class MappingConflictError extends OpenSearchEngineError {
+  constructor(message: string, details: OpenSearchErrorDetails = {}) {
+    super(message, { statusCode: 400, ...details });
+    this.name = "MappingConflictError";
+  }
+}
+
+/**
+ * Thrown by parseActionQuery when a search query has a syntax error
+ */
+class QueryParseError extends OpenSearchEngineError {
+  query: string;
+  position: number; // 0-based index into the query
+
+  constructor(message: string, query: string, position: number) {
+    super(`${message} at position ${position + 1}`, {
+      statusCode: 400,
+      type: "query_parse_error",
+      reason: message,
+    });
+    this.name = "QueryParseError";
+    this.query = query;
+    this.position = position;
+  }
+}
+
+/**
+ * Thrown when an action could not be found in any of the action indices
+ */
+class ActionNotFoundError extends OpenSearchEngineError {
+  id: string;
+
+  constructor(id: string) {
+    super(`action ${id} not found`, { statusCode: 404 });
+    this.name = "ActionNotFoundError";
+    this.id = id;
+  }
+}
+
+/**
+ * Thrown by createMany when some of the actions could not be created. The
+ * status code is the one every failure shares, or 400 if they differ.
+ */
+class BulkCreateError extends OpenSearchEngineError {
+  created: OpenSearchAction[];
+  failed: BulkCreateFailure[];
+
+  constructor({ created, failed }: BulkCreateResult) {
+    // validation failures don't have a status
+    const statusCodes = [
+      ...new Set(failed.map((failure) => failure.status ?? 400)),
+    ];
+
+    super(
+      `${failed.length} of ${
+        created.length + failed.length
+      } actions could not be created: ${failed
+        .map((failure) => failure.reason)
+        .join("; ")}`,
+      { statusCode: statusCodes.length === 1 ? statusCodes[0] : 400 }
+    );
+    this.name = "BulkCreateError";
+    this.created = created;
+    this.failed = failed;
+  }
+}
+
+/**
+ * Maps an error from the OpenSearch client (or zod) to the matching engine error
+ * @param {any} err
+ * @returns {OpenSearchEngineError} error
+ */
+const toOpenSearchEngineError = (err: any): OpenSearchEngineError => {
+  if (err instanceof OpenSearchEngineError) {
+    return err;
+  }
+  if (err instanceof ZodError) {
+    return new ValidationError(err);
+  }
+
+  const body = err?.meta?.body ?? err?.body;
+  const error = typeof body?.error === "object" ? body.error : undefined;
+
+  const details: OpenSearchErrorDetails = {
+    statusCode: err?.statusCode ?? err?.meta?.statusCode,
+    type: error?.root_cause?.[0]?.type ?? error?.type,
+    reason:
+      error?.root_cause?.[0]?.reason ??
+      error?.reason ??
+      (typeof body?.error === "string" ? body.error : undefined),
+    cause: err,
+  };
+  const message = details.reason || err?.message || String(err);
+
+  if (details.type === "index_not_found_exception") {
+    return new IndexNotFoundError(
+      error?.root_cause?.[0]?.index ?? error?.index,
+      details
+    );
+  }
+  if (
+    details.statusCode === 409 ||
+    details.type === "version_conflict_engine_exception"
+  ) {
+    return new ConflictError(message, details);
+  }
+  if (
+    details.statusCode === 429 ||
+    details.type === "es_rejected_execution_exception"
+  ) {
+    return new RateLimitedError(message, details);
+  }
+  if (
+    details.type === "mapper_parsing_exception" ||
+    details.type === "strict_dynamic_mapping_exception"
+  ) {
+    return new MappingConflictError(message, details);
+  }
+
+  return new OpenSearchEngineError(message, details);
+};
+
+export {
+  OpenSearchErrorDetails,
+  OpenSearchEngineError,
+  ValidationError,
+  IndexNotFoundError,
+  ConflictError,
+  RateLimitedError,
+  MappingConflictError,
+  QueryParseError,
+  ActionNotFoundError,
+  BulkCreateError,
+  toOpenSearchEngineError,
+};
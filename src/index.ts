@@ -17,3 +17,7 @@
 
 export * from "./action";
 export * from "./engine";
+export * from "./errors";
+export * from "./query";
+export * from "./types";
+export * from "./writer";
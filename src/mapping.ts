@@ -15,6 +15,9 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+// stored in each index's mapping _meta; bump it whenever INDEX_MAPPING changes
+export const INDEX_MAPPING_VERSION = 1;
+
 export const INDEX_MAPPING = {
   id: {
     type: "keyword",
@@ -0,0 +1,437 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { QueryParseError } from "./errors";
+import { ActionFilterTree, ParsedActionQuery } from "./types";
+
+type Operator = ":" | ">" | ">=" | "<" | "<=";
+
+type Token =
+  | { type: "(" | ")" | "-" | "AND" | "OR" | "NOT"; position: number }
+  | {
+      type: "term";
+      field: string;
+      operator: Operator;
+      value: string;
+      quoted: boolean;
+      position: number;
+    }
+  | { type: "text"; value: string; position: number };
+
+// free text is only allowed at the top level, so it's kept in the tree until
+// the whole query is parsed
+type ParsedNode =
+  | ActionFilterTree
+  | { and: ParsedNode[] }
+  | { or: ParsedNode[] }
+  | { not: ParsedNode }
+  | { text: string; position: number };
+
+// the first segment of a query field, lowercased, to its path in the mapping
+const FIELD_ALIASES: Record<string, string> = {
+  id: "id",
+  client: "clientId",
+  clientid: "clientId",
+  app: "app",
+  env: "environment",
+  environment: "environment",
+  framework: "framework",
+  session: "sessionId",
+  sessionid: "sessionId",
+  trace: "traceIds",
+  traceid: "traceIds",
+  traceids: "traceIds",
+  action: "action",
+  verb: "action.verb",
+  agent: "agents",
+  agents: "agents",
+  target: "targets",
+  targets: "targets",
+  request: "request",
+  response: "response",
+  status: "response.status",
+  time: "response.time",
+  change: "changes",
+  changes: "changes",
+  cost: "cost",
+  meta: "meta",
+};
+
+const SIMPLE_FIELDS = [
+  "id",
+  "clientId",
+  "app",
+  "environment",
+  "sessionId",
+  "traceIds",
+];
+
+// the fields of each object filter that can be matched exactly
+const OBJECT_FIELDS: Record<string, string[]> = {
+  framework: ["name", "version"],
+  action: ["id", "type", "verb", "object"],
+  agents: ["id", "type", "name"],
+  targets: ["id", "type", "name"],
+  changes: ["model", "operation", "id", "path", "before", "after"],
+};
+
+const NUMERIC_FIELDS = ["response.time", "cost.amount"];
+
+const KEYWORDS = ["AND", "OR", "NOT"];
+
+/**
+ * Splits a query into tokens
+ * @param {string} query
+ * @returns
+ */
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+
+  // reads a quoted or bare value starting at i
+  const readValue = (i: number) => {
+    if (query[i] === '"') {
+      let value = "";
+      let j = i + 1;
+      while (j < query.length && query[j] !== '"') {
+        if (query[j] === "\\" && j + 1 < query.length) {
+          j++;
+        }
+        value += query[j];
+        j++;
+      }
+      if (j >= query.length) {
+        throw new QueryParseError("unterminated quoted value", query, i);
+      }
+      return { value, quoted: true, end: j + 1 };
+    }
+
+    let j = i;
+    while (j < query.length && !/[\s()]/.test(query[j])) {
+      j++;
+    }
+    return { value: query.slice(i, j), quoted: false, end: j };
+  };
+
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < query.length &&
+      /[\w"(]/.test(query[i + 1])
+    ) {
+      tokens.push({ type: "-", position: i });
+      i++;
+    } else {
+      const term = /^([\w.-]+)(>=|<=|:|>|<)/.exec(query.slice(i));
+      if (term) {
+        const [match, field, operator] = term;
+        const { value, quoted, end } = readValue(i + match.length);
+        if (!value && !quoted) {
+          throw new QueryParseError(
+            `expected a value after "${match}"`,
+            query,
+            i + match.length
+          );
+        }
+        tokens.push({
+          type: "term",
+          field,
+          operator: operator as Operator,
+          value,
+          quoted,
+          position: i,
+        });
+        i = end;
+      } else {
+        const { value, quoted, end } = readValue(i);
+        if (!quoted && KEYWORDS.includes(value)) {
+          tokens.push({
+            type: value as "AND" | "OR" | "NOT",
+            position: i,
+          });
+        } else {
+          tokens.push({ type: "text", value, position: i });
+        }
+        i = end;
+      }
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Returns the filter for a field:value term, e.g. agent.type:USER, cost>1.00
+ * or status:5*
+ * @param {Extract<Token, { type: "term" }>} token
+ * @param {string} query
+ * @returns
+ */
+const toFilter = (
+  token: Extract<Token, { type: "term" }>,
+  query: string
+): ActionFilterTree => {
+  const { operator, value, quoted, position } = token;
+  const fail = (message: string) => {
+    throw new QueryParseError(message, query, position);
+  };
+
+  const [name, ...rest] = token.field.split(".");
+  // not e.g. "constructor" from the prototype
+  const key = name.toLowerCase();
+  const alias = Object.hasOwn(FIELD_ALIASES, key) ? FIELD_ALIASES[key] : "";
+  if (!alias) {
+    return fail(`unknown field "${token.field}"`);
+  }
+
+  const path = [...alias.split("."), ...rest];
+  if (path.length === 1 && path[0] === "cost") {
+    path.push("amount");
+  }
+  if (path.length === 1 && path[0] === "framework") {
+    path.push("name");
+  }
+  const [root, ...keys] = path;
+  const field = path.join(".");
+
+  const wildcard = !quoted && /[*?]/.test(value);
+
+  // numbers can be compared and ranged, e.g. time>=100 or cost<5
+  if (NUMERIC_FIELDS.includes(field)) {
+    const number = Number(value);
+    if (quoted || !value || isNaN(number)) {
+      return fail(`"${token.field}" needs a number, got "${value}"`);
+    }
+    switch (operator) {
+      case ":":
+        return { field, gte: number, lte: number };
+      case ">":
+        return { field, gt: number };
+      case ">=":
+        return { field, gte: number };
+      case "<":
+        return { field, lt: number };
+      case "<=":
+        return { field, lte: number };
+    }
+  }
+
+  if (operator !== ":") {
+    return fail(
+      `"${token.field}" can't be compared with ${operator}, only response.time and cost.amount can`
+    );
+  }
+
+  // key-value fields, e.g. meta.email:jane@example.com
+  const keyValue =
+    root === "meta" ||
+    root === "request" ||
+    (root === "response" && ["body", "headers"].includes(keys[0])) ||
+    (OBJECT_FIELDS[root] && keys[0] === "meta");
+  if (keyValue) {
+    const [parent, ...innerKeys] =
+      root === "meta" || root === "request" ? keys : keys.slice(1);
+    if (!parent) {
+      return fail(`"${token.field}" needs a key, e.g. ${token.field}.email`);
+    }
+    if (wildcard) {
+      return fail(`"${token.field}" doesn't support wildcards`);
+    }
+
+    if (root === "request") {
+      return {
+        request: innerKeys.length
+          ? { [parent]: { [innerKeys.join(".")]: value } }
+          : { [parent]: value },
+      };
+    }
+
+    const key = [parent, ...innerKeys].join(".");
+    if (root === "meta") {
+      return { meta: { [key]: value } };
+    }
+    if (root === "response") {
+      return { response: { [keys[0]]: { [key]: value } } };
+    }
+    return { [root]: { meta: { [key]: value } } };
+  }
+
+  const known =
+    (SIMPLE_FIELDS.includes(root) && !keys.length) ||
+    (keys.length === 1 && OBJECT_FIELDS[root]?.includes(keys[0])) ||
+    field === "response.status" ||
+    field === "cost.currency";
+  if (!known) {
+    if (OBJECT_FIELDS[root] && !keys.length) {
+      return fail(
+        `"${token.field}" needs a field, e.g. ${token.field}.${OBJECT_FIELDS[root][0]}`
+      );
+    }
+    return fail(`unknown field "${token.field}"`);
+  }
+
+  // wildcards and fields without a filter clause are matched on the field
+  if (wildcard) {
+    return { field, wildcard: value };
+  }
+  if (field === "cost.currency") {
+    return { field, value };
+  }
+
+  if (!keys.length) {
+    return { [root]: value };
+  }
+  return { [root]: { [keys[0]]: value } };
+};
+
+/**
+ * Parses a search query into a filter tree and free text, e.g.
+ * agent.type:USER action.verb:DELETE status:5* cost>1.00 -app:healthcheck
+ *
+ * Terms are field:value pairs, or field>value, field>=value, field<value and
+ * field<=value for response.time and cost.amount. Values can be "quoted", and
+ * unquoted values can use * and ? wildcards. Terms are AND'ed together unless
+ * joined with OR, and can be negated with - or NOT and grouped with
+ * parentheses. Words without a field are returned as the free-text query.
+ * @param {string} query
+ * @returns
+ */
+const parseActionQuery = (query: string): ParsedActionQuery => {
+  const tokens = tokenize(query);
+  let i = 0;
+
+  const fail = (message: string, token?: Token): never => {
+    throw new QueryParseError(
+      message,
+      query,
+      token ? token.position : query.length
+    );
+  };
+
+  // or := and (OR and)*
+  const parseOr = (): ParsedNode => {
+    const nodes = [parseAnd()];
+    while (tokens[i]?.type === "OR") {
+      i++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { or: nodes };
+  };
+
+  // and := unary ((AND)? unary)*
+  const parseAnd = (): ParsedNode => {
+    const nodes = [parseUnary()];
+    while (tokens[i] && !["OR", ")"].includes(tokens[i].type)) {
+      if (tokens[i].type === "AND") {
+        i++;
+      }
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { and: nodes };
+  };
+
+  // unary := (- | NOT)? primary
+  const parseUnary = (): ParsedNode => {
+    const token = tokens[i];
+    if (token?.type === "-" || token?.type === "NOT") {
+      i++;
+      return { not: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  // primary := ( or ) | term | text
+  const parsePrimary = (): ParsedNode => {
+    const token = tokens[i];
+    if (!token) {
+      return fail("expected a search term");
+    }
+    i++;
+
+    switch (token.type) {
+      case "(": {
+        const node = parseOr();
+        if (tokens[i]?.type !== ")") {
+          return fail('expected ")" to close "("', tokens[i]);
+        }
+        i++;
+        return node;
+      }
+      case "term":
+        return toFilter(token, query);
+      case "text":
+        return { text: token.value, position: token.position };
+      default:
+        return fail(`unexpected "${token.type}"`, token);
+    }
+  };
+
+  if (!tokens.length) {
+    return {};
+  }
+
+  const root = parseOr();
+  if (i < tokens.length) {
+    fail(`unexpected "${tokens[i].type}"`, tokens[i]);
+  }
+
+  // pull the top-level free text out of the tree
+  const text: string[] = [];
+  const nodes = ("and" in root ? root.and : [root]).filter((node) => {
+    if ("text" in node) {
+      text.push(node.text);
+      return false;
+    }
+    return true;
+  });
+
+  // free text anywhere else can't be expressed as a filter
+  const assertNoText = (node: ParsedNode) => {
+    if ("text" in node) {
+      fail(
+        `"${node.text}" needs a field, free text can't be negated, OR'ed or grouped`,
+        { type: "text", value: node.text, position: node.position }
+      );
+    } else if ("and" in node) {
+      node.and.forEach(assertNoText);
+    } else if ("or" in node) {
+      node.or.forEach(assertNoText);
+    } else if ("not" in node) {
+      assertNoText(node.not);
+    }
+  };
+  nodes.forEach(assertNoText);
+
+  const result: ParsedActionQuery = {};
+  if (nodes.length) {
+    result.where = (
+      nodes.length === 1 ? nodes[0] : { and: nodes }
+    ) as ActionFilterTree;
+  }
+  if (text.length) {
+    result.query = text.join(" ");
+  }
+  return result;
+};
+
+export { parseActionQuery };
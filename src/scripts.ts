@@ -0,0 +1,86 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Painless update script for OpenSearchEngine.anonymizeAgent
+ * Replaces the id, name and meta values of every agent matching params.agentId
+ * and all of params.meta (whichever are given) with params.pseudonym, then replaces any request or
+ * response body value equal to the agent's id, name or matched meta values. Other meta values
+ * (e.g. role: "admin") aren't identifying, so equal request and response values are kept.
+ */
+export const ANONYMIZE_AGENT_SCRIPT = `
+  def replaced = new HashSet();
+  boolean matched = false;
+
+  if (ctx._source.agents != null) {
+    for (agent in ctx._source.agents) {
+      boolean match = params.agentId == null || params.agentId.equals(agent.id);
+
+      if (match && params.meta != null) {
+        int found = 0;
+        if (agent.meta != null) {
+          for (item in agent.meta) {
+            if (params.meta.containsKey(item.key) && params.meta[item.key].equals(item.value)) {
+              found++;
+            }
+          }
+        }
+        match = found == params.meta.size();
+      }
+
+      if (match) {
+        matched = true;
+        if (agent.id != null) {
+          replaced.add(agent.id);
+          agent.id = params.pseudonym;
+        }
+        if (agent.name != null) {
+          replaced.add(agent.name);
+          agent.name = params.pseudonym;
+        }
+        if (agent.meta != null) {
+          for (item in agent.meta) {
+            if (params.meta != null && params.meta.containsKey(item.key)) {
+              replaced.add(item.value);
+            }
+            item.value = params.pseudonym;
+          }
+        }
+      }
+    }
+  }
+
+  if (!matched) {
+    ctx.op = 'noop';
+    return;
+  }
+
+  if (ctx._source.request != null) {
+    for (item in ctx._source.request) {
+      if (replaced.contains(item.value)) {
+        item.value = params.pseudonym;
+      }
+    }
+  }
+  if (ctx._source.response != null && ctx._source.response.body != null) {
+    for (item in ctx._source.response.body) {
+      if (replaced.contains(item.value)) {
+        item.value = params.pseudonym;
+      }
+    }
+  }
+`;
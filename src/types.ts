@@ -0,0 +1,402 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { FindActionFilters, FindActionOptions } from "@acro-sdk/common-store";
+
+import { OpenSearchAction } from "./action";
+import { OpenSearchEngineError } from "./errors";
+
+/**
+ * Fields that actions can be grouped by in OpenSearchEngine.aggregate
+ */
+type AggregateGroupBy =
+  | "app"
+  | "environment"
+  | "action.type"
+  | "action.verb"
+  | "response.status"
+  | "agents.type"
+  | "targets.type"
+  | "changes.model"
+  | "changes.operation";
+
+type AggregateBucket = {
+  key: string;
+  count: number; // number of actions, not nested documents
+};
+
+type AggregateOptions<G extends AggregateGroupBy = AggregateGroupBy> = {
+  groupBy: G[];
+  size?: number; // max number of buckets per group
+};
+
+type AggregateResult<G extends AggregateGroupBy = AggregateGroupBy> = {
+  total: number;
+  groups: Record<G, AggregateBucket[]>;
+};
+
+type HistogramInterval = "hour" | "day" | "week" | "month";
+
+/**
+ * Numeric fields mapped as float in INDEX_MAPPING that histograms can summarize
+ */
+type HistogramNumericMetric = "cost.amount" | "response.time";
+
+type HistogramMetric = "count" | HistogramNumericMetric;
+
+type HistogramOptions = {
+  interval: HistogramInterval;
+  metrics?: HistogramMetric[]; // defaults to ["count"]
+  percents?: number[]; // percentiles to calculate for numeric metrics
+};
+
+type HistogramMetricStats = {
+  sum: number;
+  avg: number | null;
+  percentiles: Record<string, number | null>;
+};
+
+type HistogramBucket = {
+  timestamp: string;
+  count: number;
+  metrics: Partial<Record<HistogramNumericMetric, HistogramMetricStats>>;
+};
+
+type CursorFindActionOptions = {
+  cursor?: string; // nextCursor from the previous page; omit for the first page
+  limit?: number;
+  sortDirection?: "asc" | "desc";
+  keepAlive?: string; // how long the point-in-time is kept between pages, e.g. "1m"
+};
+
+type CursorPage<T> = {
+  results: T[];
+  nextCursor?: string; // undefined once there are no more results
+};
+
+type StreamOptions = {
+  batchSize?: number; // number of actions fetched per request
+  sortDirection?: "asc" | "desc";
+  keepAlive?: string;
+};
+
+type HighlightOptions = {
+  preTag?: string; // defaults to "<em>"
+  postTag?: string; // defaults to "</em>"
+  fragmentSize?: number; // characters per fragment of text fields, defaults to 100
+  numberOfFragments?: number; // fragments per field, defaults to 5
+  innerHitsSize?: number; // matching nested entries (e.g. request values) highlighted per path, defaults to 10
+};
+
+type HighlightFindActionOptions = FindActionOptions & {
+  highlight?: HighlightOptions;
+};
+
+type HighlightedResult<T> = {
+  action: T;
+  // matched fragments by field, e.g. { "request.value": ["<em>jane</em>@example.com"] }
+  highlights: Record<string, string[]>;
+};
+
+/**
+ * When written actions become visible to searches:
+ *  - true: refresh right away (read-after-write consistency, expensive)
+ *  - "wait_for": wait for the next scheduled refresh before returning
+ *  - false: return right away (best throughput)
+ */
+type RefreshPolicy = boolean | "wait_for";
+
+type CreateOptions = {
+  refresh?: RefreshPolicy;
+};
+
+type BulkCreateOptions = CreateOptions & {
+  skipInvalid?: boolean; // index the valid actions and report the invalid ones as failed
+};
+
+type BulkCreateFailure = {
+  action: OpenSearchAction;
+  status?: number; // http status of the bulk item; undefined for validation failures
+  type?: string; // OpenSearch error type, e.g. mapper_parsing_exception
+  reason: string;
+};
+
+type BulkCreateResult = {
+  created: OpenSearchAction[];
+  failed: BulkCreateFailure[];
+};
+
+type RetryOptions = {
+  maxAttempts?: number; // including the first attempt; 1 disables retries
+  baseDelay?: number; // milliseconds before the first retry, doubled after each attempt
+  maxDelay?: number; // upper bound on the delay between attempts, in milliseconds
+  jitter?: boolean; // randomize delays so clients don't retry in lockstep
+  retryableStatusCodes?: number[];
+};
+
+type DeleteByIdOptions = {
+  companyId?: string;
+  timestamp?: string;
+  refresh?: RefreshPolicy;
+};
+
+type DeleteManyOptions = {
+  dryRun?: boolean; // only count the actions that would be deleted
+  allTime?: boolean; // ignore start/end and delete from every index for the company (also the default without a start)
+  refresh?: boolean;
+};
+
+type DeleteManyResult = {
+  matched: number;
+  deleted: number;
+  dryRun: boolean;
+};
+
+type AnonymizeAgentOptions = {
+  companyId: string;
+  agentId?: string; // agents with this id
+  meta?: Record<string, string>; // and/or agents with all of these meta values, e.g. { email }
+  salt: string; // secret mixed into the pseudonym so it can't be recomputed from the id or email
+  refresh?: boolean;
+};
+
+type AnonymizeAgentResult = {
+  pseudonym: string;
+  updated: number; // number of actions changed
+};
+
+type IndexLifecyclePolicyOptions = {
+  policyId?: string; // defaults to {indexTemplateName}_lifecycle
+  warmAfterDays?: number; // days after index creation to move to warm; default 30
+  warmNumReplicas?: number; // replicas once warm; default 0
+  warmMaxNumSegments?: number; // segments to force merge down to once warm; default 1
+  deleteAfterMonths?: number; // months after index creation to delete; never if not set
+};
+
+/**
+ * How actions are laid out in OpenSearch:
+ *  - monthly: one index per company per month, named by indexPattern
+ *  - dataStream: one data stream per company, named by dataStreamPattern, rolled over by ISM
+ */
+type StorageMode = "monthly" | "dataStream";
+
+type DataStreamRolloverOptions = {
+  maxSize?: string; // e.g. "30gb"
+  maxAge?: string; // e.g. "30d"
+  maxDocs?: number;
+};
+
+/**
+ * How companies share indices:
+ *  - index: each company has its own indices, named by indexPattern
+ *  - shared: companies share indices named by sharedIndexPattern, routed by companyId
+ */
+type Tenancy = "index" | "shared";
+
+type SharedTenancyMigrationOptions = {
+  companyId?: string; // only migrate this company; every company if not set
+  dryRun?: boolean; // only report which indices would be migrated (or deleted) where
+  onProgress?: (result: SharedTenancyMigrationResult) => void;
+};
+
+type SharedTenancyMigrationResult = {
+  source: string;
+  destination: string;
+  migrated: number;
+  deleted: boolean;
+};
+
+/**
+ * How often a new index is started, from the finest date token in the index pattern
+ */
+type IndexGranularity = "day" | "week" | "month" | "quarter" | "year";
+
+/**
+ * Values for the non-date tokens an index name pattern can contain
+ */
+type IndexNameTokens = {
+  companyId?: string;
+  app?: string;
+  environment?: string;
+  clientId?: string;
+};
+
+/**
+ * Field-level differences between an index mapping and INDEX_MAPPING; fields are dotted paths
+ */
+type MappingDiff = {
+  missing: string[]; // can be added with putMapping
+  extra: string[]; // not in INDEX_MAPPING, e.g. dynamically mapped
+  conflicting: Array<{
+    field: string;
+    actual: Record<string, any>;
+    expected: Record<string, any>;
+  }>; // can only be changed by reindexing
+};
+
+type MappingMigrationOptions = {
+  dryRun?: boolean; // only report what would be done to each index
+  deleteOld?: boolean; // delete indices once migrated instead of closing them; un-versioned indices are only migrated with it
+  onProgress?: (result: MappingMigrationResult) => void;
+};
+
+type MappingMigrationResult = {
+  index: string;
+  diff: MappingDiff;
+  // none: matches INDEX_MAPPING, putMapping: missing fields or version added, reindex: conflicting fields
+  operation: "none" | "putMapping" | "reindex";
+  alias?: string; // name reads & writes use, pointing at destination after a reindex
+  destination?: string;
+  migrated?: number;
+  deleted?: boolean;
+  closed?: boolean; // the previous version is kept, closed so searches don't match it
+  swapped?: boolean; // alias points at destination; false while an un-versioned index keeps its name
+};
+
+type MappingVersionStatus = {
+  version?: number; // from the mapping's _meta; undefined if created before versioning
+  current: boolean; // at INDEX_MAPPING_VERSION, with no missing or conflicting fields
+  diff: MappingDiff;
+};
+
+type MappingStatus = {
+  version: number; // INDEX_MAPPING_VERSION
+  template?: { name: string } & MappingVersionStatus; // undefined if the template doesn't exist
+  indices: Array<{ index: string } & MappingVersionStatus>;
+};
+
+type InitResult = {
+  success: boolean;
+  templates: boolean; // index template (and ISM policy) created or up to date
+  mappings: boolean; // existing index mappings up to date
+  errors: OpenSearchEngineError[]; // why setup failed
+};
+
+/**
+ * The filters besides companyId, the date range and the free-text query
+ */
+type ActionFilterClauses = Omit<
+  FindActionFilters,
+  "companyId" | "start" | "end" | "query"
+>;
+
+/**
+ * FindActionFilters, plus filters actions must not match. Each "not" filter
+ * excludes what it would match on its own, e.g.
+ * { not: { app: "healthcheck", agents: { type: "SYSTEM" } } } excludes
+ * healthchecks and any action with a SYSTEM agent.
+ */
+type OpenSearchFindActionFilters = FindActionFilters & {
+  not?: ActionFilterClauses;
+  where?: ActionFilterTree;
+  queryMode?: QueryMode; // defaults to the engine's queryMode
+};
+
+/**
+ * How filters.query matches the searched fields:
+ *  - exact: the whole value of a field, e.g. "/v1/invoices/:id"
+ *  - prefix: the start of a word or phrase in text fields, and the start of keyword fields
+ *  - fulltext: analyzed words in text fields, in any order
+ *  - fuzzy: like fulltext, but allowing typos
+ */
+type QueryMode = "exact" | "prefix" | "fulltext" | "fuzzy";
+
+/**
+ * A boolean tree of filters; the leaves are filter clauses, which match when
+ * all of their filters match. Unlike the top-level "not" filters, a "not"
+ * node negates the whole subtree, e.g.
+ * { or: [{ agents: { id: "x" }, action: { verb: "DELETE" } }, { targets: { id: "y" } }] }
+ * matches actions by agent x that delete something, or that target y.
+ */
+type ActionFilterTree =
+  | { and: ActionFilterTree[] }
+  | { or: ActionFilterTree[] }
+  | { not: ActionFilterTree }
+  | ActionFieldFilter
+  | ActionFilterClauses;
+
+/**
+ * A filter on a single mapped field, for what filter clauses can't express:
+ * wildcards, numeric ranges and fields without a filter (e.g. cost.amount)
+ */
+type ActionFieldFilter = {
+  field: string; // e.g. "response.status", "cost.amount" or "agents.type"
+  value?: string | number;
+  wildcard?: string; // e.g. "5*"
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+};
+
+/**
+ * A search query parsed by parseActionQuery, to use as findMany filters
+ */
+type ParsedActionQuery = {
+  where?: ActionFilterTree; // the field:value terms
+  query?: string; // the words without a field
+};
+
+export {
+  AggregateGroupBy,
+  AggregateBucket,
+  AggregateOptions,
+  AggregateResult,
+  HistogramInterval,
+  HistogramNumericMetric,
+  HistogramMetric,
+  HistogramOptions,
+  HistogramMetricStats,
+  HistogramBucket,
+  CursorFindActionOptions,
+  CursorPage,
+  StreamOptions,
+  BulkCreateOptions,
+  BulkCreateFailure,
+  BulkCreateResult,
+  RetryOptions,
+  RefreshPolicy,
+  CreateOptions,
+  DeleteByIdOptions,
+  DeleteManyOptions,
+  DeleteManyResult,
+  AnonymizeAgentOptions,
+  AnonymizeAgentResult,
+  IndexLifecyclePolicyOptions,
+  StorageMode,
+  DataStreamRolloverOptions,
+  Tenancy,
+  SharedTenancyMigrationOptions,
+  SharedTenancyMigrationResult,
+  IndexGranularity,
+  IndexNameTokens,
+  MappingDiff,
+  MappingMigrationOptions,
+  MappingMigrationResult,
+  MappingVersionStatus,
+  MappingStatus,
+  InitResult,
+  ActionFilterClauses,
+  OpenSearchFindActionFilters,
+  ActionFilterTree,
+  ActionFieldFilter,
+  ParsedActionQuery,
+  QueryMode,
+  HighlightOptions,
+  HighlightFindActionOptions,
+  HighlightedResult,
+};
@@ -15,7 +15,14 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { breakCircularReferences } from "@acro-sdk/common-store";
+import { createHash } from "crypto";
+import {
+  breakCircularReferences,
+  deepCompareObjects,
+} from "@acro-sdk/common-store";
+
+import { OpenSearchEngineError } from "./errors";
+import { MappingDiff } from "./types";
 
 export const transformArrayToObject = (
   arr: Array<{ key: string; value: string }> | undefined
@@ -39,3 +46,125 @@ export const transformObjectToArray = (
         : JSON.stringify(breakCircularReferences(value)),
   }));
 };
+
+/**
+ * Encodes pagination state into an opaque, url-safe cursor string
+ */
+export const encodeCursor = (state: Record<string, any>): string =>
+  Buffer.from(JSON.stringify(state)).toString("base64url");
+
+/**
+ * Decodes a cursor created by encodeCursor
+ */
+export const decodeCursor = <T = Record<string, any>>(cursor: string): T => {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new OpenSearchEngineError(`invalid cursor: ${cursor}`, {
+      statusCode: 400,
+    });
+  }
+};
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a stable pseudonym for an identifier, so the same person always maps
+ * to the same pseudonym without the pseudonym revealing who they are. The salt
+ * must be a secret: without it, the hash of a known id or email can be recomputed.
+ */
+export const createPseudonym = (identifier: string, salt: string): string => {
+  if (!salt) {
+    throw new OpenSearchEngineError(
+      "a secret salt is required for pseudonyms",
+      {
+        statusCode: 400,
+      }
+    );
+  }
+
+  return `anon_${createHash("sha256")
+    .update(`${salt}:${identifier}`)
+    .digest("hex")
+    .slice(0, 16)}`;
+};
+
+/**
+ * Makes a value safe to use as part of an index name: OpenSearch only allows
+ * lowercase index names without spaces or any of \ / * ? " < > | , # : that
+ * don't start with - _ or +
+ */
+export const sanitizeIndexName = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[\\/*?"<>|\s,#:]+/g, "-")
+    .replace(/^[-_+]+/, "");
+
+/**
+ * Compares an index mapping's properties with the expected properties, field by
+ * field. Missing fields can be added to an existing index; conflicting fields
+ * (e.g. text vs. keyword) can only be changed by reindexing.
+ */
+export const diffMappings = (
+  actual: Record<string, any> = {},
+  expected: Record<string, any> = {},
+  prefix: string = ""
+): MappingDiff => {
+  const diff: MappingDiff = { missing: [], extra: [], conflicting: [] };
+
+  // objects don't have a type in the mapping OpenSearch returns
+  const getType = (field: Record<string, any>) =>
+    field.type || (field.properties ? "object" : undefined);
+  const getParameters = (field: Record<string, any>) =>
+    Object.fromEntries(
+      Object.entries({ ...field, type: getType(field) }).filter(
+        ([key, value]) =>
+          value !== undefined && key !== "properties" && key !== "fields"
+      )
+    );
+
+  for (const name of Object.keys(expected)) {
+    const path = `${prefix}${name}`;
+
+    if (!actual[name]) {
+      diff.missing.push(path);
+      continue;
+    }
+
+    const actualParameters = getParameters(actual[name]);
+    const expectedParameters = getParameters(expected[name]);
+    if (!deepCompareObjects(actualParameters, expectedParameters)) {
+      diff.conflicting.push({
+        field: path,
+        actual: actualParameters,
+        expected: expectedParameters,
+      });
+      continue;
+    }
+
+    for (const key of ["properties", "fields"]) {
+      if (actual[name][key] || expected[name][key]) {
+        const nested = diffMappings(
+          actual[name][key],
+          expected[name][key],
+          `${path}.`
+        );
+        diff.missing.push(...nested.missing);
+        diff.extra.push(...nested.extra);
+        diff.conflicting.push(...nested.conflicting);
+      }
+    }
+  }
+
+  for (const name of Object.keys(actual)) {
+    if (!expected[name]) {
+      diff.extra.push(`${prefix}${name}`);
+    }
+  }
+
+  return diff;
+};
@@ -0,0 +1,287 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Action } from "@acro-sdk/common-store";
+
+import { OpenSearchAction, OpenSearchActionSchema } from "./action";
+import { OpenSearchEngine } from "./engine";
+import {
+  BulkCreateError,
+  OpenSearchEngineError,
+  ValidationError,
+} from "./errors";
+import { RefreshPolicy } from "./types";
+
+type BufferedWriterOptions = {
+  maxBatchSize?: number; // flush once this many actions are queued
+  maxBatchBytes?: number; // flush once the queued actions reach this JSON size
+  flushInterval?: number; // flush at least this often, in milliseconds
+  maxQueueSize?: number; // most actions held in memory at once
+  // what to do with a write when the queue is full:
+  //  - block: wait for a flush to make room (backpressure)
+  //  - dropNewest: drop the action being written
+  //  - dropOldest: drop the oldest queued action
+  overflow?: "block" | "dropNewest" | "dropOldest";
+  refresh?: RefreshPolicy; // defaults to the engine's refresh policy
+  onError?: (error: Error, actions: OpenSearchAction[]) => void;
+  onDrop?: (action: OpenSearchAction) => void;
+};
+
+/**
+ * Queues actions in memory and writes them with createMany-style bulk calls,
+ * so hot paths don't make one index call per action.
+ */
+class BufferedWriter {
+  _engine: OpenSearchEngine;
+
+  _maxBatchSize: number = 500;
+  _maxBatchBytes: number = 5 * 1024 * 1024; // 5mb
+  _flushInterval: number = 1000; // 1s
+  _maxQueueSize: number = 10000;
+  _overflow: "block" | "dropNewest" | "dropOldest" = "block";
+  _refresh?: RefreshPolicy;
+  _onError?: (error: Error, actions: OpenSearchAction[]) => void;
+  _onDrop?: (action: OpenSearchAction) => void;
+
+  _queue: Array<{ action: OpenSearchAction; bytes: number }> = [];
+  _queueBytes: number = 0;
+  _waiting: Array<() => void> = []; // writes blocked on a full queue
+  _flushing: Promise<void> | null = null;
+  _timer: ReturnType<typeof setInterval>;
+  _closed: boolean = false;
+
+  constructor(engine: OpenSearchEngine, options: BufferedWriterOptions = {}) {
+    this._engine = engine;
+
+    if (options?.maxBatchSize) {
+      this._maxBatchSize = options.maxBatchSize;
+    }
+    if (options?.maxBatchBytes) {
+      this._maxBatchBytes = options.maxBatchBytes;
+    }
+    if (options?.flushInterval) {
+      this._flushInterval = options.flushInterval;
+    }
+    if (options?.maxQueueSize) {
+      this._maxQueueSize = options.maxQueueSize;
+    }
+    if (options?.overflow) {
+      this._overflow = options.overflow;
+    }
+    if (typeof options?.refresh !== "undefined") {
+      this._refresh = options.refresh;
+    }
+    this._onError = options?.onError;
+    this._onDrop = options?.onDrop;
+
+    this._timer = setInterval(() => this.flush(), this._flushInterval);
+    // don't keep the process alive just to flush
+    this._timer.unref?.();
+  }
+
+  /**
+   * Number of actions waiting to be written
+   */
+  get size(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Queues a DB engine action to be written
+   * Resolves once the action is queued, not once it is written.
+   * @param {OpenSearchAction} action
+   * @returns {Promise<void>} nothing
+   */
+  async write(action: OpenSearchAction): Promise<void> {
+    if (this._closed) {
+      throw new OpenSearchEngineError("BufferedWriter is closed", {
+        statusCode: 409,
+      });
+    }
+
+    // validate now so bad actions fail in the caller, not in a later batch
+    const validation = OpenSearchActionSchema.safeParse(action);
+    if (!validation.success) {
+      throw new ValidationError(validation.error);
+    }
+
+    while (this._queue.length >= this._maxQueueSize) {
+      if (this._overflow === "dropNewest") {
+        this.drop(action);
+        return;
+      }
+
+      if (this._overflow === "dropOldest") {
+        const oldest = this._queue.shift();
+        if (oldest) {
+          this._queueBytes -= oldest.bytes;
+          this.drop(oldest.action);
+        }
+        continue;
+      }
+
+      const room = new Promise<void>((resolve) => this._waiting.push(resolve));
+      this.flush();
+      await room;
+
+      if (this._closed) {
+        throw new OpenSearchEngineError("BufferedWriter is closed", {
+          statusCode: 409,
+        });
+      }
+    }
+
+    const bytes = Buffer.byteLength(JSON.stringify(action));
+    this._queue.push({ action, bytes });
+    this._queueBytes += bytes;
+
+    if (
+      this._queue.length >= this._maxBatchSize ||
+      this._queueBytes >= this._maxBatchBytes
+    ) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Queues an action to be written after converting to DB engine action
+   * @param {Action} action
+   * @returns {Promise<void>} nothing
+   */
+  async writeAction(action: Action): Promise<void> {
+    return this.write(await this._engine.serialize(action));
+  }
+
+  /**
+   * Writes everything queued so far
+   * Never rejects; failed batches are reported through onError.
+   * @returns {Promise<void>} nothing
+   */
+  async flush(): Promise<void> {
+    // only one flush at a time so batches are written in order
+    while (this._flushing) {
+      await this._flushing;
+    }
+
+    if (!this._queue.length) {
+      return;
+    }
+
+    this._flushing = (async () => {
+      while (this._queue.length) {
+        await this.writeBatch(this.takeBatch());
+      }
+    })();
+
+    try {
+      await this._flushing;
+    } finally {
+      this._flushing = null;
+    }
+  }
+
+  /**
+   * Flushes everything queued and stops accepting writes
+   * @returns {Promise<void>} nothing
+   */
+  async close(): Promise<void> {
+    this._closed = true;
+    clearInterval(this._timer);
+
+    await this.flush();
+  }
+
+  /**
+   * Removes the next batch from the queue, making room for blocked writes
+   * @returns {OpenSearchAction[]} batch
+   */
+  takeBatch(): OpenSearchAction[] {
+    const batch: OpenSearchAction[] = [];
+    let bytes = 0;
+
+    while (
+      this._queue.length &&
+      batch.length < this._maxBatchSize &&
+      (!batch.length || bytes + this._queue[0].bytes <= this._maxBatchBytes)
+    ) {
+      const item = this._queue.shift() as (typeof this._queue)[number];
+      batch.push(item.action);
+      bytes += item.bytes;
+    }
+    this._queueBytes -= bytes;
+
+    this._waiting.splice(0, batch.length).forEach((resolve) => resolve());
+
+    return batch;
+  }
+
+  /**
+   * Writes one batch, reporting any failures
+   * @param {OpenSearchAction[]} batch
+   * @returns {Promise<void>} nothing
+   */
+  async writeBatch(batch: OpenSearchAction[]): Promise<void> {
+    await this._engine
+      .bulkCreate(batch, { skipInvalid: true, refresh: this._refresh })
+      .then((result) => {
+        this._engine.logger.debug(
+          `BufferedWriter wrote ${result.created.length} actions`
+        );
+
+        if (result.failed.length) {
+          this.error(
+            new BulkCreateError(result),
+            result.failed.map((failure) => failure.action)
+          );
+        }
+      })
+      .catch((err) => {
+        this.error(err, batch);
+      });
+  }
+
+  /**
+   * Reports a failed write
+   * @param {Error} error
+   * @param {OpenSearchAction[]} actions
+   */
+  error(error: Error, actions: OpenSearchAction[]): void {
+    this._engine.logger.error(
+      `BufferedWriter failed to write ${actions.length} actions: ${error.message}`
+    );
+
+    try {
+      this._onError?.(error, actions);
+    } catch (err) {
+      this._engine.logger.error(`BufferedWriter onError threw: ${err}`);
+    }
+  }
+
+  /**
+   * Reports a dropped action
+   * @param {OpenSearchAction} action
+   */
+  drop(action: OpenSearchAction): void {
+    this._engine.logger.warn(
+      `BufferedWriter queue is full; dropped action ${action.id || ""}`
+    );
+
+    this._onDrop?.(action);
+  }
+}
+
+export { BufferedWriter, BufferedWriterOptions };
@@ -0,0 +1,94 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine.aggregate", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should build terms aggregations for simple fields", async () => {
+    const aggs = engine.buildAggregateQuery({
+      groupBy: ["app", "action.verb"],
+    });
+
+    expect(aggs).toEqual({
+      app: { terms: { field: "app", size: 10 } },
+      "action.verb": { terms: { field: "action.verb", size: 10 } },
+    });
+  });
+
+  it("should build nested aggregations counting actions for nested fields", async () => {
+    const aggs = engine.buildAggregateQuery({
+      groupBy: ["agents.type", "changes.operation"],
+      size: 5,
+    });
+
+    expect(aggs).toEqual({
+      "agents.type": {
+        nested: { path: "agents" },
+        aggs: {
+          values: {
+            terms: { field: "agents.type", size: 5 },
+            aggs: { actions: { reverse_nested: {} } },
+          },
+        },
+      },
+      "changes.operation": {
+        nested: { path: "changes" },
+        aggs: {
+          values: {
+            terms: { field: "changes.operation", size: 5 },
+            aggs: { actions: { reverse_nested: {} } },
+          },
+        },
+      },
+    });
+  });
+
+  it("should count actions grouped by app and agent type", async () => {
+    const result = await engine.aggregate(
+      { companyId: "company123" },
+      { groupBy: ["app", "agents.type"] }
+    );
+
+    expect(result.groups.app).toContainEqual({
+      key: "testApp",
+      count: result.total,
+    });
+    expect(result.groups["agents.type"]).toContainEqual({
+      key: "pwn",
+      count: result.total,
+    });
+  });
+});
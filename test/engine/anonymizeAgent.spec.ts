@@ -0,0 +1,155 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Action } from "@acro-sdk/common-store";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+import { ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.anonymizeAgent", () => {
+  let engine: OpenSearchEngine;
+  const salt = "salt";
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should require an agentId or meta", () => {
+    expect(() =>
+      engine.buildAnonymizeAgentQuery({ companyId: "company123", salt })
+    ).toThrow("anonymizeAgent requires an agentId or meta");
+  });
+
+  it("should require a secret salt", () => {
+    expect(() =>
+      engine.buildAnonymizeAgentQuery({
+        companyId: "company123",
+        agentId: "agent1",
+        salt: "",
+      })
+    ).toThrow("a secret salt is required for pseudonyms");
+  });
+
+  it("should create a stable pseudonym per agent", () => {
+    const first = engine.buildAnonymizeAgentQuery({
+      companyId: "company123",
+      agentId: "agent1",
+      salt,
+    });
+    const second = engine.buildAnonymizeAgentQuery({
+      companyId: "company123",
+      agentId: "agent1",
+      salt,
+    });
+    const other = engine.buildAnonymizeAgentQuery({
+      companyId: "company123",
+      agentId: "agent2",
+      salt,
+    });
+    const salted = engine.buildAnonymizeAgentQuery({
+      companyId: "company123",
+      agentId: "agent1",
+      salt: "pepper",
+    });
+
+    expect(first.pseudonym).toMatch(/^anon_[0-9a-f]{16}$/);
+    expect(second.pseudonym).toEqual(first.pseudonym);
+    expect(other.pseudonym).not.toEqual(first.pseudonym);
+    expect(salted.pseudonym).not.toEqual(first.pseudonym);
+  });
+
+  it("should update every action for the company with a matching agent", () => {
+    const { index, body, pseudonym } = engine.buildAnonymizeAgentQuery({
+      companyId: "company123",
+      meta: { role: "user" },
+      salt,
+    });
+
+    expect(index).toEqual("actions_*");
+    expect(body.query).toEqual({
+      bool: {
+        must: [
+          { term: { companyId: "company123" } },
+          {
+            nested: {
+              path: "agents",
+              query: {
+                nested: {
+                  path: "agents.meta",
+                  query: {
+                    bool: {
+                      must: [
+                        { term: { "agents.meta.key": "role" } },
+                        { term: { "agents.meta.value.keyword": "user" } },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+    expect(body.script.params).toEqual({
+      agentId: null,
+      meta: { role: "user" },
+      pseudonym,
+    });
+  });
+
+  it("should replace the agent's identifying values", async () => {
+    const agentId = `agent_${Date.now()}`;
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+      agents: [{ id: agentId, type: "USER", name: "Someone" }],
+      request: { userId: agentId, url: "/api/submit" },
+    };
+    const created = await engine.createAction(action);
+
+    const result = await engine.anonymizeAgent({
+      companyId: "company123",
+      agentId,
+      salt,
+      refresh: true,
+    });
+
+    expect(result.updated).toEqual(1);
+
+    const anonymized = await engine.findActionById(created.id as string);
+    expect(anonymized.agents).toEqual([
+      { id: result.pseudonym, type: "USER", name: result.pseudonym },
+    ]);
+    expect(anonymized.request).toEqual({
+      userId: result.pseudonym,
+      url: "/api/submit",
+    });
+  });
+});
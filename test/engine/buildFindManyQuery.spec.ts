@@ -2237,4 +2237,267 @@ describe("OpenSearchEngine.buildFindManyQuery", () => {
       },
     ]);
   });
+
+  it("should exclude simple fields with must_not", async () => {
+    const query = engine.buildFindManyQuery(
+      {},
+      {
+        companyId: "123",
+        start: "2024-07-01T00:00:00.000Z",
+        end: "2024-08-31T23:59:59.999Z",
+        environment: "production",
+        not: { app: ["healthcheck", "status"] },
+      }
+    );
+
+    expect(query.slice(2)).toEqual([
+      {
+        terms: {
+          environment: ["production"],
+        },
+      },
+      {
+        bool: {
+          must_not: [
+            {
+              terms: {
+                app: ["healthcheck", "status"],
+              },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should exclude nested agents, targets, request, response & meta with must_not outside the nested query", async () => {
+    const query = engine.buildFindManyQuery(
+      {},
+      {
+        companyId: "123",
+        start: "2024-07-01T00:00:00.000Z",
+        end: "2024-08-31T23:59:59.999Z",
+        not: {
+          action: { verb: "HEALTHCHECK" },
+          agents: { type: "SYSTEM" },
+          targets: { type: "session" },
+          request: { path: "/health" },
+          response: { status: "200" },
+          meta: { internal: "true" },
+        },
+      }
+    );
+
+    expect(query.slice(2)).toEqual([
+      {
+        bool: {
+          must_not: [
+            {
+              term: {
+                "action.verb": "HEALTHCHECK",
+              },
+            },
+            {
+              nested: {
+                path: "agents",
+                query: {
+                  term: {
+                    "agents.type": "SYSTEM",
+                  },
+                },
+              },
+            },
+            {
+              nested: {
+                path: "targets",
+                query: {
+                  term: {
+                    "targets.type": "session",
+                  },
+                },
+              },
+            },
+            {
+              nested: {
+                path: "request",
+                query: {
+                  bool: {
+                    must: [
+                      {
+                        term: { "request.key": "path" },
+                      },
+                      {
+                        term: {
+                          "request.value.keyword": "/health",
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+            {
+              term: {
+                "response.status": "200",
+              },
+            },
+            {
+              nested: {
+                path: "meta",
+                query: {
+                  bool: {
+                    must: [
+                      {
+                        term: {
+                          "meta.key": "internal",
+                        },
+                      },
+                      {
+                        term: {
+                          "meta.value.keyword": "true",
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should not add must_not for empty exclusions", async () => {
+    const query = engine.buildFindManyQuery(
+      {},
+      {
+        companyId: "123",
+        not: {},
+      }
+    );
+
+    expect(query).toHaveLength(2);
+  });
+
+  it("should build and/or/not filter trees from filter clauses", async () => {
+    const query = engine.buildFindManyQuery(
+      {},
+      {
+        companyId: "123",
+        start: "2024-07-01T00:00:00.000Z",
+        end: "2024-08-31T23:59:59.999Z",
+        where: {
+          or: [
+            { agents: { id: "agent1" }, action: { verb: "DELETE" } },
+            {
+              and: [
+                { targets: { id: "target1" } },
+                { not: { environment: "staging" } },
+              ],
+            },
+          ],
+        },
+      }
+    );
+
+    expect(query.slice(2)).toEqual([
+      {
+        bool: {
+          should: [
+            {
+              bool: {
+                must: [
+                  {
+                    term: {
+                      "action.verb": "DELETE",
+                    },
+                  },
+                  {
+                    nested: {
+                      path: "agents",
+                      query: {
+                        term: {
+                          "agents.id": "agent1",
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+            {
+              bool: {
+                must: [
+                  {
+                    nested: {
+                      path: "targets",
+                      query: {
+                        term: {
+                          "targets.id": "target1",
+                        },
+                      },
+                    },
+                  },
+                  {
+                    bool: {
+                      must_not: [
+                        {
+                          terms: {
+                            environment: ["staging"],
+                          },
+                        },
+                      ],
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should build empty filter tree nodes", async () => {
+    expect(engine.buildFilterTree({})).toEqual({ match_all: {} });
+    expect(engine.buildFilterTree({ and: [] })).toEqual({
+      bool: { must: [] },
+    });
+    expect(engine.buildFilterTree({ or: [] })).toEqual({ match_none: {} });
+  });
+  it("should build field filters in a filter tree", async () => {
+    expect(
+      engine.buildFilterTree({ field: "response.status", wildcard: "5*" })
+    ).toEqual({
+      wildcard: {
+        "response.status": { value: "5*" },
+      },
+    });
+
+    expect(
+      engine.buildFilterTree({ field: "cost.amount", gt: 1, lte: 10 })
+    ).toEqual({
+      range: {
+        "cost.amount": { gt: 1, lte: 10 },
+      },
+    });
+
+    expect(
+      engine.buildFilterTree({ field: "agents.name", wildcard: "jane*" })
+    ).toEqual({
+      nested: {
+        path: "agents",
+        query: {
+          wildcard: {
+            "agents.name.keyword": { value: "jane*" },
+          },
+        },
+      },
+    });
+
+    expect(() =>
+      engine.buildFilterTree({ field: "agents.unknown", value: "x" })
+    ).toThrow("unknown field agents.unknown");
+  });
 });
@@ -0,0 +1,120 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import dotenv from "dotenv";
+
+import { BulkCreateError, OpenSearchAction, OpenSearchEngine } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.bulkCreate", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  const invalidAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    timestamp: new Date().toISOString(),
+    action: undefined,
+  } as unknown as OpenSearchAction;
+
+  it("should throw for invalid actions by default", async () => {
+    await expect(engine.bulkCreate([invalidAction])).rejects.toThrow();
+  });
+
+  it("should report invalid actions as failed when skipping them", async () => {
+    const result = await engine.bulkCreate([invalidAction], {
+      skipInvalid: true,
+    });
+
+    expect(result.created).toEqual([]);
+    expect(result.failed).toEqual([
+      {
+        action: invalidAction,
+        type: "validation_error",
+        reason: "action: Required",
+      },
+    ]);
+  });
+
+  it("should create the valid actions when skipping invalid ones", async () => {
+    const validAction: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      timestamp: new Date().toISOString(),
+    };
+
+    const result = await engine.bulkCreate([validAction, invalidAction], {
+      skipInvalid: true,
+    });
+
+    expect(result.created).toEqual([
+      { ...validAction, id: expect.any(String) },
+    ]);
+    expect(result.failed.length).toEqual(1);
+  });
+
+  it("should reject createMany with the items OpenSearch rejected", async () => {
+    const validAction: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      timestamp: new Date().toISOString(),
+    };
+    // passes validation and names a valid index, but a date without a time
+    // isn't a date_time, so the mapping rejects it
+    const rejectedAction: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      timestamp: new Date().toISOString().slice(0, 10),
+    };
+
+    const result = await engine.bulkCreate([validAction, rejectedAction]);
+
+    expect(result.created).toHaveLength(1);
+    expect(result.failed).toEqual([
+      {
+        action: { ...rejectedAction, id: expect.any(String) },
+        status: 400,
+        type: "mapper_parsing_exception",
+        reason: expect.any(String),
+      },
+    ]);
+
+    await expect(
+      engine.createMany([validAction, rejectedAction])
+    ).rejects.toBeInstanceOf(BulkCreateError);
+  });
+
+  it("should expose created and failed actions on BulkCreateError", () => {
+    const error = new BulkCreateError({
+      created: [],
+      failed: [{ action: invalidAction, status: 400, reason: "bad" }],
+    });
+
+    expect(error.failed).toHaveLength(1);
+    expect(error.message).toEqual("1 of 1 actions could not be created: bad");
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine dataStream storage mode", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = () =>
+    new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        storageMode: "dataStream",
+        dataStreamRollover: { maxSize: "30gb", maxAge: "30d" },
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  const action: OpenSearchAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id: "1",
+    timestamp: "2024-09-07T07:04:30.596Z",
+  };
+
+  it("should target the company's data stream instead of monthly indices", () => {
+    const engine = createEngine();
+
+    expect(engine.getIndexName(action)).toEqual("actions_company123");
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-01-01T00:00:00.000Z",
+        end: "2024-09-01T00:00:00.000Z",
+      })
+    ).toEqual("actions_company123");
+    expect(engine.getIndexNameWildcard({ companyId: "company123" })).toEqual(
+      "actions_company123"
+    );
+    expect(
+      engine.getIndexNameWildcard({ timestamp: "2024-09-07T07:04:30.596Z" })
+    ).toEqual("actions_*");
+  });
+
+  it("should write with op_type create", async () => {
+    const engine = createEngine();
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockResolvedValue({} as any);
+    const bulk = vi.spyOn(engine._client, "bulk").mockResolvedValue({
+      body: { items: [{ create: { status: 201 } }] },
+    } as any);
+
+    await engine.create(action);
+    const created = await engine.createMany([action]);
+
+    expect(index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "actions_company123",
+        op_type: "create",
+      })
+    );
+    expect(bulk).toHaveBeenCalledWith({
+      body: [{ create: { _index: "actions_company123", _id: "1" } }, action],
+    });
+    expect(created).toEqual([action]);
+  });
+
+  it("should roll the data stream over in the hot state", () => {
+    const engine = createEngine();
+    const policy = engine.buildIndexLifecyclePolicy();
+
+    expect(policy.states).toEqual([
+      {
+        name: "hot",
+        actions: [
+          {
+            retry: { count: 3, backoff: "exponential", delay: "1m" },
+            rollover: { min_size: "30gb", min_index_age: "30d" },
+          },
+        ],
+        transitions: [],
+      },
+    ]);
+    expect(policy.ism_template).toEqual([
+      { index_patterns: [".ds-actions_*"], priority: 100 },
+    ]);
+  });
+
+  it("should create the index template as a data stream template", async () => {
+    const engine = createEngine();
+    const putIndexTemplate = vi
+      .spyOn(engine._client.indices, "putIndexTemplate")
+      .mockResolvedValue({} as any);
+
+    await engine.createIndexTemplates();
+
+    expect(putIndexTemplate).toHaveBeenCalledWith({
+      name: "acro_actions",
+      body: expect.objectContaining({
+        index_patterns: ["actions_*"],
+        data_stream: { timestamp_field: { name: "timestamp" } },
+      }),
+    });
+  });
+  it("should create points in time over the data stream's backing indices", async () => {
+    const engine = createEngine();
+    const createPit = vi
+      .spyOn(engine._client, "createPit")
+      .mockResolvedValue({ body: { pit_id: "pit" } } as any);
+
+    await engine.createPointInTime({ companyId: "company1" }, "1m");
+
+    // actions_company1* would also match actions_company12
+    expect(createPit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: [".ds-actions_company1-*"],
+        expand_wildcards: "open,hidden",
+      })
+    );
+  });
+});
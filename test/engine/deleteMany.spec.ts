@@ -0,0 +1,185 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Action } from "@acro-sdk/common-store";
+import dotenv from "dotenv";
+
+import { ActionNotFoundError, OpenSearchEngine } from "../../src";
+import { ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.deleteMany", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should target the date range indices by default", () => {
+    const { index, query } = engine.buildDeleteManyQuery({
+      companyId: "company123",
+      start: "2024-01-01T00:00:00.000Z",
+      end: "2024-02-15T00:00:00.000Z",
+      agents: { id: "agent1" },
+    });
+
+    expect(index).toEqual(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-01-01T00:00:00.000Z",
+        end: "2024-02-15T00:00:00.000Z",
+      })
+    );
+    expect(query.bool.must).toContainEqual({
+      range: {
+        timestamp: {
+          gte: "2024-01-01T00:00:00.000Z",
+          lt: "2024-02-15T00:00:00.000Z",
+        },
+      },
+    });
+  });
+
+  it("should target every index for the company when allTime is set", () => {
+    const { index, query } = engine.buildDeleteManyQuery(
+      {
+        companyId: "company123",
+        agents: { meta: { email: "someone@example.com" } },
+      },
+      { allTime: true }
+    );
+
+    expect(index).toEqual("actions_company123_*");
+    expect(query).toEqual({
+      bool: {
+        must: [
+          { term: { companyId: "company123" } },
+          {
+            nested: {
+              path: "agents",
+              query: {
+                nested: {
+                  path: "agents.meta",
+                  query: {
+                    bool: {
+                      must: [
+                        { term: { "agents.meta.key": "email" } },
+                        {
+                          term: {
+                            "agents.meta.value.keyword": "someone@example.com",
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it("should target every index for the company without a start", () => {
+    const erasure = engine.buildDeleteManyQuery({
+      companyId: "company123",
+      agents: { id: "agent1" },
+    });
+
+    expect(erasure.index).toEqual("actions_company123_*");
+    expect(
+      erasure.query.bool.must.find((clause: any) => clause.range)
+    ).toBeUndefined();
+
+    const retention = engine.buildDeleteManyQuery({
+      companyId: "company123",
+      end: "2024-01-01T00:00:00.000Z",
+    });
+
+    expect(retention.index).toEqual("actions_company123_*");
+    expect(retention.query.bool.must).toContainEqual({
+      range: { timestamp: { lt: "2024-01-01T00:00:00.000Z" } },
+    });
+  });
+
+  it("should reject deletes without a companyId", async () => {
+    await expect(
+      engine.deleteMany({ companyId: "" }, { allTime: true })
+    ).rejects.toThrow("deleteMany requires a companyId");
+  });
+
+  it("should only count matches on a dry run", async () => {
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+    };
+    const created = await engine.createAction(action);
+
+    const result = await engine.deleteMany(
+      { companyId: "company123", id: created.id },
+      { dryRun: true }
+    );
+
+    expect(result).toEqual({ matched: 1, deleted: 0, dryRun: true });
+    await expect(
+      engine.findActionById(created.id as string)
+    ).resolves.toBeDefined();
+  });
+
+  it("should delete matching actions", async () => {
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+    };
+    const created = await engine.createAction(action);
+
+    const result = await engine.deleteMany(
+      { companyId: "company123", id: created.id },
+      { allTime: true, refresh: true }
+    );
+
+    expect(result).toEqual({ matched: 1, deleted: 1, dryRun: false });
+    await expect(
+      engine.findActionById(created.id as string)
+    ).rejects.toBeInstanceOf(ActionNotFoundError);
+  });
+
+  it("should delete a single action by id", async () => {
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+    };
+    const created = await engine.createAction(action);
+
+    await engine.deleteById(created.id as string, { refresh: true });
+
+    await expect(
+      engine.findActionById(created.id as string)
+    ).rejects.toBeInstanceOf(ActionNotFoundError);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import {
+  BulkCreateError,
+  ConflictError,
+  IndexNotFoundError,
+  MappingConflictError,
+  OpenSearchAction,
+  OpenSearchEngine,
+  OpenSearchEngineError,
+  RateLimitedError,
+  ValidationError,
+  toOpenSearchEngineError,
+} from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine errors", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const engine = new OpenSearchEngine(
+    { autoUpdateIndexMappings: false, retry: { maxAttempts: 1 } },
+    {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    }
+  );
+
+  const action: OpenSearchAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id: "1",
+    timestamp: "2024-09-07T07:04:30.596Z",
+  };
+
+  const responseError = (statusCode: number, type: string, reason: string) => ({
+    name: "ResponseError",
+    message: type,
+    statusCode,
+    body: {
+      error: { root_cause: [{ type, reason }], type, reason },
+      status: statusCode,
+    },
+  });
+
+  it("should map OpenSearch errors to typed errors", () => {
+    const notFound = toOpenSearchEngineError({
+      statusCode: 404,
+      body: {
+        error: {
+          type: "index_not_found_exception",
+          reason: "no such index [actions_company123_2024_09]",
+          index: "actions_company123_2024_09",
+        },
+      },
+    });
+    expect(notFound).toBeInstanceOf(IndexNotFoundError);
+    expect(notFound).toMatchObject({
+      statusCode: 404,
+      index: "actions_company123_2024_09",
+      reason: "no such index [actions_company123_2024_09]",
+    });
+
+    expect(
+      toOpenSearchEngineError(
+        responseError(409, "version_conflict_engine_exception", "conflict")
+      )
+    ).toBeInstanceOf(ConflictError);
+    expect(
+      toOpenSearchEngineError(
+        responseError(429, "es_rejected_execution_exception", "rejected")
+      )
+    ).toBeInstanceOf(RateLimitedError);
+    expect(
+      toOpenSearchEngineError(
+        responseError(400, "mapper_parsing_exception", "failed to parse")
+      )
+    ).toBeInstanceOf(MappingConflictError);
+
+    const unknown = toOpenSearchEngineError(
+      responseError(500, "exception", "something broke")
+    );
+    expect(unknown).toBeInstanceOf(OpenSearchEngineError);
+    expect(unknown).toMatchObject({
+      statusCode: 500,
+      type: "exception",
+      reason: "something broke",
+      message: "something broke",
+    });
+  });
+
+  it("should reject invalid actions with a ValidationError", async () => {
+    const index = vi.spyOn(engine._client, "index");
+
+    const error = await engine
+      .create({ ...action, timestamp: 123 as any })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.statusCode).toEqual(400);
+    expect(error.issues[0].path).toEqual(["timestamp"]);
+    expect(index).not.toHaveBeenCalled();
+  });
+
+  it("should reject client errors with typed errors", async () => {
+    vi.spyOn(engine._client, "index").mockRejectedValue(
+      responseError(409, "version_conflict_engine_exception", "already exists")
+    );
+    vi.spyOn(engine._client, "search").mockRejectedValue(
+      responseError(429, "es_rejected_execution_exception", "queue is full")
+    );
+
+    await expect(engine.create(action)).rejects.toBeInstanceOf(ConflictError);
+    await expect(
+      engine.findMany({}, { companyId: "company123" })
+    ).rejects.toMatchObject({
+      name: "RateLimitedError",
+      statusCode: 429,
+      reason: "queue is full",
+    });
+  });
+
+  it("should reject invalid arguments with a 400", async () => {
+    await expect(
+      engine.findManyWithCursor(
+        { cursor: "not a cursor" },
+        { companyId: "company123" }
+      )
+    ).rejects.toMatchObject({
+      name: "OpenSearchEngineError",
+      statusCode: 400,
+    });
+    expect(() =>
+      engine.buildAnonymizeAgentQuery({ companyId: "company123", salt: "s" })
+    ).toThrow(OpenSearchEngineError);
+  });
+
+  it("should give BulkCreateError the status its failures share", () => {
+    const failure = (status?: number) => ({ action, status, reason: "bad" });
+
+    expect(
+      new BulkCreateError({ created: [], failed: [failure(429), failure(429)] })
+        .statusCode
+    ).toEqual(429);
+    expect(
+      new BulkCreateError({ created: [], failed: [failure(429), failure()] })
+        .statusCode
+    ).toEqual(400);
+  });
+
+  it("should report mapping update failures from init", async () => {
+    const engine = new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        indexTemplateName: "acro_actions_errors",
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+    vi.spyOn(engine, "upsertIndexTemplates").mockResolvedValue(true);
+    vi.spyOn(engine._client.cat, "indices").mockResolvedValue({
+      body: [{ index: "actions_company123_2024_09" }],
+    } as any);
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company123_2024_09: {
+          mappings: { properties: { app: { type: "text" } } },
+        },
+      },
+    } as any);
+    vi.spyOn(engine._client.indices, "putMapping").mockRejectedValue(
+      responseError(
+        400,
+        "illegal_argument_exception",
+        "mapper [app] cannot be changed from type [text] to [keyword]"
+      )
+    );
+
+    const result = await engine.init();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toBeInstanceOf(MappingConflictError);
+    expect(result.errors[0].reason).toEqual(
+      "mapper [app] cannot be changed from type [text] to [keyword]"
+    );
+  });
+});
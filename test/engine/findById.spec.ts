@@ -0,0 +1,90 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Action } from "@acro-sdk/common-store";
+import dotenv from "dotenv";
+
+import { ActionNotFoundError, OpenSearchEngine } from "../../src";
+import { ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.findById", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should build index wildcards from the known parts of the index name", () => {
+    expect(engine.getIndexNameWildcard({})).toEqual("actions_*");
+    expect(engine.getIndexNameWildcard({ companyId: "company123" })).toEqual(
+      "actions_company123_*"
+    );
+    expect(
+      engine.getIndexNameWildcard({ timestamp: "2024-09-07T07:04:30.596Z" })
+    ).toEqual("actions_*_2024_09");
+    expect(
+      engine.getIndexNameWildcard({
+        companyId: "company123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+      })
+    ).toEqual("actions_company123_2024_09");
+  });
+
+  it("should find a created action by id only", async () => {
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+    };
+
+    const created = await engine.createAction(action);
+    const found = await engine.findActionById(created.id as string);
+
+    expect(found).toEqual(created);
+  });
+
+  it("should find a created action by id narrowed by companyId and timestamp", async () => {
+    const action: Action = {
+      timestamp: new Date().toISOString(),
+      ...ACTION_TEMPLATE,
+    };
+
+    const created = await engine.createAction(action);
+    const found = await engine.findActionById(created.id as string, {
+      companyId: created.companyId,
+      timestamp: created.timestamp,
+    });
+
+    expect(found).toEqual(created);
+  });
+
+  it("should reject with ActionNotFoundError for an unknown id", async () => {
+    await expect(engine.findById("does-not-exist")).rejects.toBeInstanceOf(
+      ActionNotFoundError
+    );
+  });
+});
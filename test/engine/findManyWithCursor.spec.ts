@@ -0,0 +1,80 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine.findManyWithCursor", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should reject an invalid cursor", async () => {
+    await expect(
+      engine.findManyWithCursor(
+        { cursor: "not a cursor" },
+        { companyId: "company123" }
+      )
+    ).rejects.toThrow("invalid cursor");
+  });
+
+  it("should page through all results without duplicates", async () => {
+    const results: OpenSearchAction[] = [];
+
+    let page = await engine.findManyWithCursor(
+      { limit: 2 },
+      { companyId: "company123" }
+    );
+    results.push(...page.results);
+
+    while (page.nextCursor) {
+      page = await engine.findManyWithCursor(
+        { cursor: page.nextCursor, limit: 2 },
+        { companyId: "company123" }
+      );
+      results.push(...page.results);
+    }
+
+    const ids = results.map((result) => result.id);
+    expect(new Set(ids).size).toEqual(ids.length);
+    expect(results.length).toBeGreaterThan(0);
+  });
+
+  it("should close a cursor that isn't paged to the end", async () => {
+    const page = await engine.findManyWithCursor(
+      { limit: 1 },
+      { companyId: "company123" }
+    );
+
+    expect(page.nextCursor).toBeDefined();
+    await engine.closeCursor(page.nextCursor as string);
+  });
+});
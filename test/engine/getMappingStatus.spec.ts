@@ -0,0 +1,136 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+import { INDEX_MAPPING, INDEX_MAPPING_VERSION } from "../../src/mapping";
+
+describe("OpenSearchEngine.getMappingStatus", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const engine = new OpenSearchEngine(
+    { autoUpdateIndexMappings: false },
+    {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    }
+  );
+
+  const { environment, ...withoutEnvironment } = INDEX_MAPPING;
+
+  it("should report each index's version and field-level drift", async () => {
+    vi.spyOn(engine._client.indices, "getIndexTemplate").mockResolvedValue({
+      body: {
+        index_templates: [
+          {
+            index_template: {
+              template: {
+                mappings: {
+                  _meta: { version: INDEX_MAPPING_VERSION },
+                  properties: INDEX_MAPPING,
+                },
+              },
+            },
+          },
+        ],
+      },
+    } as any);
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company123_2024_09: {
+          mappings: {
+            _meta: { version: INDEX_MAPPING_VERSION },
+            properties: INDEX_MAPPING,
+          },
+        },
+        actions_company123_2024_08: {
+          mappings: {
+            properties: {
+              ...withoutEnvironment,
+              app: { type: "text" },
+              custom: { type: "keyword" },
+            },
+          },
+        },
+      },
+    } as any);
+
+    const status = await engine.getMappingStatus();
+
+    expect(status.version).toEqual(INDEX_MAPPING_VERSION);
+    expect(status.template).toEqual({
+      name: "acro_actions",
+      version: INDEX_MAPPING_VERSION,
+      current: true,
+      diff: { missing: [], extra: [], conflicting: [] },
+    });
+    expect(status.indices).toEqual([
+      {
+        index: "actions_company123_2024_08",
+        version: undefined,
+        current: false,
+        diff: {
+          missing: ["environment"],
+          extra: ["custom"],
+          conflicting: [
+            {
+              field: "app",
+              actual: { type: "text" },
+              expected: { type: "keyword" },
+            },
+          ],
+        },
+      },
+      {
+        index: "actions_company123_2024_09",
+        version: INDEX_MAPPING_VERSION,
+        current: true,
+        diff: { missing: [], extra: [], conflicting: [] },
+      },
+    ]);
+  });
+
+  it("should report a missing template", async () => {
+    vi.spyOn(engine._client.indices, "getIndexTemplate").mockRejectedValue({
+      statusCode: 404,
+    });
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {},
+    } as any);
+
+    const status = await engine.getMappingStatus();
+
+    expect(status.template).toBeUndefined();
+    expect(status.indices).toEqual([]);
+  });
+
+  it("should version the index template mapping", async () => {
+    const putIndexTemplate = vi
+      .spyOn(engine._client.indices, "putIndexTemplate")
+      .mockResolvedValue({} as any);
+
+    await engine.createIndexTemplates();
+
+    expect(
+      (putIndexTemplate.mock.calls[0][0] as any).body.template.mappings._meta
+    ).toEqual({ version: INDEX_MAPPING_VERSION });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine highlights", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const engine = new OpenSearchEngine(
+    {
+      autoUpdateIndexMappings: false,
+    },
+    {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    }
+  );
+
+  const action: OpenSearchAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id: "1",
+    timestamp: "2024-09-07T07:04:30.596Z",
+  };
+
+  const highlight = { pre_tags: ["<em>"], post_tags: ["</em>"] };
+
+  it("should add inner hits to nested queries", () => {
+    const query = engine.addInnerHits(
+      {
+        bool: {
+          should: [
+            {
+              nested: {
+                path: "request",
+                query: { term: { "request.value.keyword": "jane" } },
+              },
+            },
+            {
+              nested: {
+                path: "agents",
+                query: {
+                  nested: {
+                    path: "agents.meta",
+                    query: { term: { "agents.meta.value.keyword": "jane" } },
+                  },
+                },
+              },
+            },
+          ],
+          must_not: [
+            {
+              nested: {
+                path: "changes",
+                query: { term: { "changes.id": "jane" } },
+              },
+            },
+          ],
+        },
+      },
+      highlight,
+      3
+    );
+
+    expect(query.bool.should[0].nested.inner_hits).toEqual({
+      name: "request_0",
+      size: 3,
+      _source: false,
+      highlight: { ...highlight, fields: { "request.*": {} } },
+    });
+    expect(query.bool.should[1].nested.inner_hits.name).toEqual("agents_2");
+    expect(
+      query.bool.should[1].nested.query.nested.inner_hits.highlight.fields
+    ).toEqual({ "agents.meta.*": {} });
+    expect(query.bool.must_not[0].nested.inner_hits).toBeUndefined();
+  });
+
+  it("should merge the highlights of hits and inner hits", () => {
+    expect(
+      engine.getHighlights({
+        highlight: {
+          "action.object": ["/v1/<em>invoices</em>/:id"],
+          "action.object.keyword": ["<em>/v1/invoices/:id</em>"],
+        },
+        inner_hits: {
+          request_0: {
+            hits: {
+              hits: [
+                { highlight: { "request.value": ["<em>invoice</em> 1"] } },
+                { highlight: { "request.value": ["<em>invoice</em> 2"] } },
+              ],
+            },
+          },
+          changes_1: {
+            hits: {
+              hits: [
+                {
+                  highlight: { "changes.after": ["paid <em>invoice</em>"] },
+                  inner_hits: {
+                    "changes.meta_2": {
+                      hits: {
+                        hits: [
+                          {
+                            highlight: {
+                              "changes.meta.value.keyword": [
+                                "<em>invoice</em>",
+                              ],
+                            },
+                          },
+                        ],
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      })
+    ).toEqual({
+      "action.object": [
+        "/v1/<em>invoices</em>/:id",
+        "<em>/v1/invoices/:id</em>",
+      ],
+      "request.value": ["<em>invoice</em> 1", "<em>invoice</em> 2"],
+      "changes.after": ["paid <em>invoice</em>"],
+      "changes.meta.value": ["<em>invoice</em>"],
+    });
+
+    expect(engine.getHighlights({})).toEqual({});
+  });
+
+  it("should return highlights alongside each result", async () => {
+    const search = vi.spyOn(engine._client, "search").mockResolvedValue({
+      body: {
+        hits: {
+          hits: [
+            {
+              _source: action,
+              inner_hits: {
+                "response.body_0": {
+                  hits: {
+                    hits: [
+                      {
+                        highlight: {
+                          "response.body.value": ["<mark>invoice</mark>"],
+                        },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          ],
+        },
+      },
+    } as any);
+
+    const results = await engine.findManyWithHighlights(
+      { highlight: { preTag: "<mark>", postTag: "</mark>", innerHitsSize: 5 } },
+      { companyId: "company123", query: "invoice", queryMode: "fulltext" }
+    );
+
+    expect(results).toEqual([
+      {
+        action,
+        highlights: { "response.body.value": ["<mark>invoice</mark>"] },
+      },
+    ]);
+
+    const { body } = search.mock.calls[0][0] as any;
+    expect(body.highlight).toMatchObject({
+      pre_tags: ["<mark>"],
+      post_tags: ["</mark>"],
+      fragment_size: 100,
+      number_of_fragments: 5,
+    });
+    expect(body.highlight.fields).toHaveProperty("action.object");
+    expect(body.highlight.fields).not.toHaveProperty("companyId");
+    expect(JSON.stringify(body.query)).toContain(
+      '"inner_hits":{"name":"response.body_'
+    );
+    expect(body.sort[0]).toEqual({ _score: { order: "desc" } });
+  });
+
+  it("should only highlight when the highlight option is set", () => {
+    const filters = {
+      companyId: "company123",
+      query: "invoice",
+      queryMode: "fulltext" as const,
+    };
+
+    const plain = engine.buildFindManyBody({ limit: 10 }, filters);
+    const highlighted = engine.buildFindManyBody(
+      { limit: 10, highlight: {} },
+      filters
+    );
+
+    expect(plain).not.toHaveProperty("highlight");
+    expect(JSON.stringify(plain.query)).not.toContain("inner_hits");
+    expect(highlighted.highlight.pre_tags).toEqual(["<em>"]);
+    expect(JSON.stringify(highlighted.query)).toContain("inner_hits");
+    expect({ ...highlighted, query: undefined, highlight: undefined }).toEqual({
+      ...plain,
+      query: undefined,
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine.histogram", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should build a count-only date histogram", async () => {
+    const aggs = engine.buildHistogramQuery({ interval: "day" });
+
+    expect(aggs).toEqual({
+      date_histogram: {
+        field: "timestamp",
+        calendar_interval: "day",
+        min_doc_count: 0,
+      },
+      aggs: {},
+    });
+  });
+
+  it("should build sum, avg and percentiles for numeric metrics", async () => {
+    const aggs = engine.buildHistogramQuery(
+      {
+        interval: "month",
+        metrics: ["count", "cost.amount", "response.time"],
+        percents: [50, 99],
+      },
+      { gte: "2024-01-01T00:00:00.000Z", lt: "2024-07-01T00:00:00.000Z" }
+    );
+
+    expect(aggs).toEqual({
+      date_histogram: {
+        field: "timestamp",
+        calendar_interval: "month",
+        min_doc_count: 0,
+        extended_bounds: {
+          min: "2024-01-01T00:00:00.000Z",
+          max: "2024-06-30T23:59:59.999Z",
+        },
+      },
+      aggs: {
+        "cost.amount.sum": { sum: { field: "cost.amount" } },
+        "cost.amount.avg": { avg: { field: "cost.amount" } },
+        "cost.amount.percentiles": {
+          percentiles: { field: "cost.amount", percents: [50, 99] },
+        },
+        "response.time.sum": { sum: { field: "response.time" } },
+        "response.time.avg": { avg: { field: "response.time" } },
+        "response.time.percentiles": {
+          percentiles: { field: "response.time", percents: [50, 99] },
+        },
+      },
+    });
+  });
+
+  it("should not add a bucket for the exclusive end of the range", async () => {
+    const aggs = engine.buildHistogramQuery(
+      { interval: "month" },
+      { gte: "2024-01-01T00:00:00.000Z", lt: "2024-03-01T00:00:00.000Z" }
+    );
+
+    expect(aggs.date_histogram.extended_bounds).toEqual({
+      min: "2024-01-01T00:00:00.000Z",
+      max: "2024-02-29T23:59:59.999Z",
+    });
+  });
+
+  it("should return buckets with counts and cost", async () => {
+    const buckets = await engine.histogram(
+      { companyId: "company123" },
+      { interval: "month", metrics: ["count", "cost.amount"] }
+    );
+
+    expect(buckets.length).toBeGreaterThan(0);
+    expect(buckets[0]).toEqual({
+      timestamp: expect.any(String),
+      count: expect.any(Number),
+      metrics: {
+        "cost.amount": {
+          sum: expect.any(Number),
+          avg: buckets[0].count ? expect.any(Number) : null,
+          percentiles: expect.any(Object),
+        },
+      },
+    });
+  });
+});
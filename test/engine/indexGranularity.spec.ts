@@ -0,0 +1,187 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine index granularity", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = (indexPattern: string) =>
+    new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        indexPattern,
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  it("should derive the granularity from the finest date token", () => {
+    expect(
+      createEngine("actions_{companyId}_{year}_{month}").getIndexGranularity()
+    ).toEqual("month");
+    expect(
+      createEngine(
+        "actions_{companyId}_{year}_{month}_{day}"
+      ).getIndexGranularity()
+    ).toEqual("day");
+    expect(
+      createEngine("actions_{companyId}_{year}_w{week}").getIndexGranularity()
+    ).toEqual("week");
+    expect(
+      createEngine(
+        "actions_{companyId}_{year}_q{quarter}"
+      ).getIndexGranularity()
+    ).toEqual("quarter");
+    expect(
+      createEngine("actions_{companyId}_{year}").getIndexGranularity()
+    ).toEqual("year");
+    expect(
+      createEngine("actions_{companyId}").getIndexGranularity()
+    ).toBeUndefined();
+  });
+
+  it("should name indices by day, week, quarter and year", () => {
+    const action = {
+      companyId: "company123",
+      timestamp: "2024-12-30T07:04:30.596Z",
+    };
+
+    expect(
+      createEngine("actions_{companyId}_{year}_{month}_{day}").getIndexName(
+        action
+      )
+    ).toEqual("actions_company123_2024_12_30");
+    expect(
+      createEngine("actions_{companyId}_{year}_w{week}").getIndexName(action)
+    ).toEqual("actions_company123_2025_w01");
+    expect(
+      createEngine("actions_{companyId}_{year}_q{quarter}").getIndexName(action)
+    ).toEqual("actions_company123_2024_q4");
+    expect(
+      createEngine("actions_{companyId}_{year}").getIndexName(action)
+    ).toEqual("actions_company123_2024");
+  });
+
+  it("should step the index range by the granularity", () => {
+    const range = {
+      companyId: "company123",
+      start: "2024-01-30T12:00:00.000Z",
+      end: "2024-02-02T00:00:00.000Z",
+    };
+
+    expect(
+      createEngine(
+        "actions_{companyId}_{year}_{month}_{day}"
+      ).getIndexNameRange(range)
+    ).toEqual(
+      "actions_company123_2024_01_30,actions_company123_2024_01_31,actions_company123_2024_02_01,actions_company123_2024_02_02"
+    );
+    expect(
+      createEngine("actions_{companyId}_{year}_{month}").getIndexNameRange(
+        range
+      )
+    ).toEqual("actions_company123_2024_01,actions_company123_2024_02");
+    expect(
+      createEngine("actions_{companyId}_{year}_w{week}").getIndexNameRange(
+        range
+      )
+    ).toEqual("actions_company123_2024_w05");
+    expect(
+      createEngine("actions_{companyId}_{year}").getIndexNameRange({
+        ...range,
+        start: "2022-06-01T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_company123_2022,actions_company123_2023,actions_company123_2024"
+    );
+  });
+
+  it("should not skip a month when the range starts late in a month", () => {
+    expect(
+      createEngine("actions_{companyId}_{year}_{month}").getIndexNameRange({
+        companyId: "company123",
+        start: "2024-01-31T00:00:00.000Z",
+        end: "2024-03-01T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_company123_2024_01,actions_company123_2024_02,actions_company123_2024_03"
+    );
+  });
+
+  it("should collapse full months and years into one wildcard name", () => {
+    const engine = createEngine("actions_{companyId}_{year}_{month}_{day}");
+
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-06-30T12:00:00.000Z",
+        end: "2024-08-02T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_company123_2024_06_30,actions_company123_2024_07_*,actions_company123_2024_08_01,actions_company123_2024_08_02"
+    );
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2023-12-31T00:00:00.000Z",
+        end: "2025-01-01T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_company123_2023_12_31,actions_company123_2024_*_*,actions_company123_2025_01_01"
+    );
+    expect(
+      createEngine("actions_{companyId}_{year}_w{week}").getIndexNameRange({
+        companyId: "company123",
+        start: "2024-12-30T00:00:00.000Z",
+        end: "2026-01-05T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_company123_2025_w*,actions_company123_2026_w01,actions_company123_2026_w02"
+    );
+  });
+
+  it("should fall back to a wildcard when the index list gets too long", () => {
+    expect(
+      createEngine(
+        "actions_{companyId}_{app}_{environment}_{year}_{month}_{day}"
+      ).getIndexNameRange({
+        companyId: "company123",
+        start: "2024-01-15T00:00:00.000Z",
+        end: "2024-02-14T00:00:00.000Z",
+        app: ["app1", "app2", "app3"],
+        environment: ["production", "staging"],
+      })
+    ).toEqual(
+      [
+        "actions_company123_app1_production_*_*_*",
+        "actions_company123_app1_staging_*_*_*",
+        "actions_company123_app2_production_*_*_*",
+        "actions_company123_app2_staging_*_*_*",
+        "actions_company123_app3_production_*_*_*",
+        "actions_company123_app3_staging_*_*_*",
+      ].join(",")
+    );
+  });
+});
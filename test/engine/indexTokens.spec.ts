@@ -0,0 +1,111 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine index name tokens", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const engine = new OpenSearchEngine(
+    {
+      autoUpdateIndexMappings: false,
+      indexPattern: "actions_{companyId}_{environment}_{app}_{year}_{month}",
+    },
+    {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    }
+  );
+
+  it("should name indices by app and environment, sanitizing the values", () => {
+    expect(
+      engine.getIndexName({
+        companyId: "company123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+        app: "Billing API",
+        environment: "production",
+      })
+    ).toEqual("actions_company123_production_billing-api_2024_09");
+    expect(
+      engine.getIndexName({
+        companyId: "company123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+        app: "a/b:c#d",
+      })
+    ).toEqual("actions_company123_none_a-b-c-d_2024_09");
+    expect(
+      engine.getIndexName({
+        companyId: "company123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+        app: "_internal",
+        environment: " +staging",
+      })
+    ).toEqual("actions_company123_staging_internal_2024_09");
+  });
+
+  it("should keep the companyId as it is", () => {
+    expect(
+      engine.getIndexName({
+        companyId: "Company 123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+        app: "web",
+        environment: "production",
+      })
+    ).toEqual("actions_Company 123_production_web_2024_09");
+  });
+
+  it("should expand the filtered values in the index range", () => {
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-08-15T00:00:00.000Z",
+        end: "2024-09-07T00:00:00.000Z",
+        app: ["web", "api"],
+        environment: "production",
+      })
+    ).toEqual(
+      [
+        "actions_company123_production_web_2024_08",
+        "actions_company123_production_web_2024_09",
+        "actions_company123_production_api_2024_08",
+        "actions_company123_production_api_2024_09",
+      ].join(",")
+    );
+  });
+
+  it("should use wildcards for tokens without a filter", () => {
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-09-01T00:00:00.000Z",
+        end: "2024-09-07T00:00:00.000Z",
+        app: "web",
+      })
+    ).toEqual("actions_company123_*_web_2024_09");
+    expect(
+      engine.getIndexNameWildcard({
+        companyId: "company123",
+        timestamp: "2024-09-07T07:04:30.596Z",
+      })
+    ).toEqual("actions_company123_*_2024_09");
+  });
+});
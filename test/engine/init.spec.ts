@@ -0,0 +1,229 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import {
+  MappingConflictError,
+  OpenSearchAction,
+  OpenSearchEngine,
+  toOpenSearchEngineError,
+} from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.init", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = (indexTemplateName: string) =>
+    new OpenSearchEngine(
+      { autoUpdateIndexMappings: false, indexTemplateName },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  it("should run setup once for every engine using the same template", async () => {
+    const first = createEngine("acro_actions_init_once");
+    const second = createEngine("acro_actions_init_once");
+    const upsertIndexTemplates = vi
+      .spyOn(first, "upsertIndexTemplates")
+      .mockResolvedValue(true);
+    vi.spyOn(first, "updateIndexMappings").mockResolvedValue(true);
+    const secondUpsertIndexTemplates = vi.spyOn(second, "upsertIndexTemplates");
+
+    const results = await Promise.all([
+      first.init(),
+      first.init(),
+      second.init(),
+    ]);
+
+    expect(upsertIndexTemplates).toHaveBeenCalledTimes(1);
+    expect(secondUpsertIndexTemplates).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      { success: true, templates: true, mappings: true, errors: [] },
+      { success: true, templates: true, mappings: true, errors: [] },
+      { success: true, templates: true, mappings: true, errors: [] },
+    ]);
+  });
+
+  it("should report a failed setup and run it again on the next call", async () => {
+    const engine = createEngine("acro_actions_init_failed");
+    const upsertIndexTemplates = vi
+      .spyOn(engine, "upsertIndexTemplates")
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    vi.spyOn(engine, "updateIndexMappings").mockResolvedValue(true);
+
+    expect(await engine.init()).toMatchObject({
+      success: false,
+      templates: false,
+      mappings: true,
+    });
+    expect(await engine.init()).toMatchObject({
+      success: true,
+      templates: true,
+      mappings: true,
+    });
+    expect(upsertIndexTemplates).toHaveBeenCalledTimes(2);
+  });
+
+  it("should make writes wait for setup", async () => {
+    const engine = createEngine("acro_actions_init_wait");
+    let finishSetup: (success: boolean) => void = () => {};
+    vi.spyOn(engine, "upsertIndexTemplates").mockReturnValue(
+      new Promise((resolve) => (finishSetup = resolve))
+    );
+    vi.spyOn(engine, "updateIndexMappings").mockResolvedValue(true);
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockResolvedValue({} as any);
+
+    const action: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+
+    engine.init();
+    const created = engine.create(action);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(index).not.toHaveBeenCalled();
+
+    finishSetup(true);
+
+    expect(await created).toEqual(action);
+    expect(index).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run setup again for engines with other index settings", async () => {
+    const clientOptions = {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    };
+    const first = new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        indexTemplateName: "acro_actions_init_settings",
+      },
+      clientOptions
+    );
+    const second = new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        indexTemplateName: "acro_actions_init_settings",
+        indexTemplateNumShards: 1,
+      },
+      clientOptions
+    );
+    for (const engine of [first, second]) {
+      vi.spyOn(engine, "upsertIndexTemplates").mockResolvedValue(true);
+      vi.spyOn(engine, "updateIndexMappings").mockResolvedValue(true);
+    }
+
+    await Promise.all([first.init(), second.init()]);
+
+    expect(first.upsertIndexTemplates).toHaveBeenCalledTimes(1);
+    expect(second.upsertIndexTemplates).toHaveBeenCalledTimes(1);
+  });
+
+  it("should make writes wait for setup to run again after a transient failure", async () => {
+    const engine = createEngine("acro_actions_init_retry");
+    let finishSetup: (success: boolean) => void = () => {};
+    const upsertIndexTemplates = vi
+      .spyOn(engine, "upsertIndexTemplates")
+      .mockImplementationOnce(async () => {
+        engine._setupErrors.push(
+          toOpenSearchEngineError({
+            name: "ConnectionError",
+            message: "connect ECONNREFUSED",
+          })
+        );
+        return false;
+      })
+      .mockReturnValueOnce(new Promise((resolve) => (finishSetup = resolve)));
+    vi.spyOn(engine, "updateIndexMappings").mockResolvedValue(true);
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockResolvedValue({} as any);
+
+    const action: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+
+    expect(await engine.init()).toMatchObject({ success: false });
+
+    const created = engine.create(action);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(upsertIndexTemplates).toHaveBeenCalledTimes(2);
+    expect(index).not.toHaveBeenCalled();
+
+    finishSetup(true);
+
+    expect(await created).toEqual(action);
+    expect(index).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not run setup again on writes after a permanent failure", async () => {
+    const engine = createEngine("acro_actions_init_permanent");
+    const upsertIndexTemplates = vi
+      .spyOn(engine, "upsertIndexTemplates")
+      .mockResolvedValue(true);
+    vi.spyOn(engine, "updateIndexMappings").mockImplementation(async () => {
+      engine._setupErrors.push(
+        new MappingConflictError("mapper [app] cannot be changed", {
+          statusCode: 400,
+          type: "illegal_argument_exception",
+        })
+      );
+      return false;
+    });
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockResolvedValue({} as any);
+
+    const action: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+
+    expect(await engine.init()).toMatchObject({ success: false });
+
+    await Promise.all([
+      engine.create(action),
+      engine.create(action),
+      engine.create(action),
+    ]);
+
+    expect(index).toHaveBeenCalledTimes(3);
+    expect(upsertIndexTemplates).toHaveBeenCalledTimes(1);
+
+    // an explicit call still runs it again
+    await engine.init();
+    expect(upsertIndexTemplates).toHaveBeenCalledTimes(2);
+  });
+});
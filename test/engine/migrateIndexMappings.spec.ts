@@ -0,0 +1,364 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+import { INDEX_MAPPING, INDEX_MAPPING_VERSION } from "../../src/mapping";
+import { diffMappings } from "../../src/utils";
+
+describe("OpenSearchEngine.migrateIndexMappings", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const engine = new OpenSearchEngine(
+    { autoUpdateIndexMappings: false },
+    {
+      nodes: [process.env.OPENSEARCH_NODE as string],
+      ssl: {
+        rejectUnauthorized: false,
+      },
+    }
+  );
+
+  const { app, ...withoutApp } = INDEX_MAPPING;
+  const conflicting = {
+    ...INDEX_MAPPING,
+    app: { type: "text" },
+    custom: { type: "keyword" },
+  };
+
+  it("should diff mappings field by field", () => {
+    expect(diffMappings(INDEX_MAPPING, INDEX_MAPPING)).toEqual({
+      missing: [],
+      extra: [],
+      conflicting: [],
+    });
+    expect(diffMappings(withoutApp, INDEX_MAPPING).missing).toEqual(["app"]);
+    expect(diffMappings(conflicting, INDEX_MAPPING)).toEqual({
+      missing: [],
+      extra: ["custom"],
+      conflicting: [
+        {
+          field: "app",
+          actual: { type: "text" },
+          expected: { type: "keyword" },
+        },
+      ],
+    });
+    expect(
+      diffMappings(
+        { framework: { properties: { name: { type: "long" } } } },
+        { framework: { properties: { name: { type: "keyword" } } } }
+      ).conflicting.map(({ field }) => field)
+    ).toEqual(["framework.name"]);
+  });
+
+  it("should get the next index version behind the alias", () => {
+    expect(engine.getNextIndexVersion("actions_company123_2024_09")).toEqual({
+      alias: "actions_company123_2024_09",
+      destination: "actions_company123_2024_09_v2",
+    });
+    expect(engine.getNextIndexVersion("actions_company123_2024_09_v2")).toEqual(
+      {
+        alias: "actions_company123_2024_09",
+        destination: "actions_company123_2024_09_v3",
+      }
+    );
+  });
+
+  it("should only report what would be done on a dry run", async () => {
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company123_2024_07: {
+          mappings: {
+            _meta: { version: INDEX_MAPPING_VERSION },
+            properties: INDEX_MAPPING,
+          },
+        },
+        actions_company123_2024_08: { mappings: { properties: withoutApp } },
+        actions_company123_2024_09: { mappings: { properties: conflicting } },
+      },
+    } as any);
+    const putMapping = vi.spyOn(engine._client.indices, "putMapping");
+    const reindex = vi.spyOn(engine._client, "reindex");
+    const onProgress = vi.fn();
+
+    const results = await engine.migrateIndexMappings({
+      dryRun: true,
+      onProgress,
+    });
+
+    expect(
+      results.map(({ index, operation, destination }) => ({
+        index,
+        operation,
+        destination,
+      }))
+    ).toEqual([
+      {
+        index: "actions_company123_2024_07",
+        operation: "none",
+        destination: undefined,
+      },
+      {
+        index: "actions_company123_2024_08",
+        operation: "putMapping",
+        destination: undefined,
+      },
+      {
+        index: "actions_company123_2024_09",
+        operation: "reindex",
+        destination: "actions_company123_2024_09_v2",
+      },
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(putMapping).not.toHaveBeenCalled();
+    expect(reindex).not.toHaveBeenCalled();
+  });
+
+  it("should reindex conflicting indices and swap the alias", async () => {
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company123_2024_08: {
+          mappings: {
+            _meta: { version: INDEX_MAPPING_VERSION },
+            properties: INDEX_MAPPING,
+          },
+          aliases: {},
+        },
+        actions_company123_2024_09_v2: {
+          mappings: { properties: conflicting },
+          aliases: {},
+        },
+        actions_company123_2024_09_v3: {
+          mappings: { properties: conflicting },
+          aliases: { actions_company123_2024_09: {} },
+        },
+        actions_company456_2024_09: {
+          mappings: { properties: conflicting },
+          aliases: {},
+        },
+      },
+    } as any);
+    const create = vi
+      .spyOn(engine._client.indices, "create")
+      .mockResolvedValue({} as any);
+    const reindex = vi
+      .spyOn(engine._client, "reindex")
+      .mockResolvedValue({ body: { created: 5, failures: [] } } as any);
+    const updateAliases = vi
+      .spyOn(engine._client.indices, "updateAliases")
+      .mockResolvedValue({} as any);
+    const deleteIndex = vi
+      .spyOn(engine._client.indices, "delete")
+      .mockResolvedValue({} as any);
+    const close = vi
+      .spyOn(engine._client.indices, "close")
+      .mockResolvedValue({} as any);
+
+    const results = await engine.migrateIndexMappings();
+
+    // a leftover destination is rebuilt from scratch
+    expect(deleteIndex).toHaveBeenCalledWith({
+      index: "actions_company123_2024_09_v4",
+      ignore_unavailable: true,
+    });
+    // the un-versioned index is only migrated with deleteOld
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith({
+      index: "actions_company123_2024_09_v4",
+      body: {
+        mappings: {
+          _meta: { version: INDEX_MAPPING_VERSION },
+          properties: INDEX_MAPPING,
+        },
+      },
+    });
+    expect(reindex).toHaveBeenCalledTimes(1);
+    expect(updateAliases).toHaveBeenCalledWith({
+      body: {
+        actions: [
+          {
+            add: {
+              index: "actions_company123_2024_09_v4",
+              alias: "actions_company123_2024_09",
+            },
+          },
+          {
+            remove: {
+              index: "actions_company123_2024_09_v3",
+              alias: "actions_company123_2024_09",
+            },
+          },
+        ],
+      },
+    });
+    expect(reindex).toHaveBeenCalledWith({
+      wait_for_completion: true,
+      refresh: true,
+      body: {
+        conflicts: "abort",
+        source: { index: "actions_company123_2024_09_v3" },
+        dest: { index: "actions_company123_2024_09_v4" },
+      },
+    });
+    expect(updateAliases).toHaveBeenCalledTimes(1);
+    // the previous version is kept, but searches must not match it twice
+    expect(close).toHaveBeenCalledWith({
+      index: "actions_company123_2024_09_v3",
+    });
+    expect(
+      results
+        .filter(({ operation }) => operation === "reindex")
+        .map(({ index, migrated, deleted, closed, swapped }) => ({
+          index,
+          migrated,
+          deleted,
+          closed,
+          swapped,
+        }))
+    ).toEqual([
+      {
+        index: "actions_company123_2024_09_v3",
+        migrated: 5,
+        deleted: false,
+        closed: true,
+        swapped: true,
+      },
+      {
+        index: "actions_company456_2024_09",
+        migrated: 0,
+        deleted: false,
+        closed: false,
+        swapped: false,
+      },
+    ]);
+  });
+
+  it("should replace an un-versioned index with the alias on deleteOld", async () => {
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company456_2024_09: {
+          mappings: { properties: conflicting },
+          aliases: {},
+        },
+        actions_company456_2024_09_v2: {
+          mappings: { properties: INDEX_MAPPING },
+          aliases: {},
+        },
+      },
+    } as any);
+    const deleteIndex = vi
+      .spyOn(engine._client.indices, "delete")
+      .mockResolvedValue({} as any);
+    const create = vi
+      .spyOn(engine._client.indices, "create")
+      .mockResolvedValue({} as any);
+    const close = vi
+      .spyOn(engine._client.indices, "close")
+      .mockResolvedValue({} as any);
+    const reindex = vi
+      .spyOn(engine._client, "reindex")
+      .mockResolvedValue({ body: { created: 2, failures: [] } } as any);
+    const updateAliases = vi
+      .spyOn(engine._client.indices, "updateAliases")
+      .mockResolvedValue({} as any);
+
+    const results = await engine.migrateIndexMappings({ deleteOld: true });
+
+    // left by an earlier run; it may still hold actions deleted since
+    expect(deleteIndex.mock.invocationCallOrder[0]).toBeLessThan(
+      create.mock.invocationCallOrder[0]
+    );
+    expect(deleteIndex).toHaveBeenCalledWith({
+      index: "actions_company456_2024_09_v2",
+      ignore_unavailable: true,
+    });
+    expect(reindex).toHaveBeenCalledTimes(1);
+    expect(close).not.toHaveBeenCalled();
+    expect(updateAliases).toHaveBeenCalledWith({
+      body: {
+        actions: [
+          {
+            add: {
+              index: "actions_company456_2024_09_v2",
+              alias: "actions_company456_2024_09",
+            },
+          },
+          { remove_index: { index: "actions_company456_2024_09" } },
+        ],
+      },
+    });
+    expect(results).toMatchObject([
+      {
+        index: "actions_company456_2024_09",
+        operation: "reindex",
+        migrated: 2,
+        deleted: true,
+        swapped: true,
+      },
+    ]);
+  });
+
+  it("should delete the destination when the reindex fails", async () => {
+    vi.spyOn(engine._client.indices, "get").mockResolvedValue({
+      body: {
+        actions_company456_2024_09: {
+          mappings: { properties: conflicting },
+          aliases: {},
+        },
+      },
+    } as any);
+    vi.spyOn(engine._client.indices, "create").mockResolvedValue({} as any);
+    vi.spyOn(engine._client, "reindex").mockResolvedValue({
+      body: { created: 1, failures: [{ id: "1", cause: {} }] },
+    } as any);
+    const deleteIndex = vi
+      .spyOn(engine._client.indices, "delete")
+      .mockResolvedValue({} as any);
+    const updateAliases = vi.spyOn(engine._client.indices, "updateAliases");
+
+    await expect(
+      engine.migrateIndexMappings({ deleteOld: true })
+    ).rejects.toThrow("reindex actions_company456_2024_09 failed");
+    expect(deleteIndex).toHaveBeenCalledTimes(2);
+    expect(deleteIndex).toHaveBeenLastCalledWith({
+      index: "actions_company456_2024_09_v2",
+      ignore_unavailable: true,
+    });
+    expect(updateAliases).not.toHaveBeenCalled();
+  });
+
+  it("should not update the mappings of closed versions", async () => {
+    vi.spyOn(engine._client.cat, "indices").mockResolvedValue({
+      body: [
+        { index: "actions_company123_2024_09_v2", status: "close" },
+        { index: "actions_company123_2024_09_v3", status: "open" },
+      ],
+    } as any);
+    const updateIndexMapping = vi
+      .spyOn(engine, "updateIndexMapping")
+      .mockResolvedValue(true);
+
+    expect(await engine.updateIndexMappings()).toEqual(true);
+    expect(updateIndexMapping).toHaveBeenCalledTimes(1);
+    expect(updateIndexMapping).toHaveBeenCalledWith(
+      "actions_company123_2024_09_v3"
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, it, expect } from "vitest";
+
+import { QueryParseError, parseActionQuery } from "../../src";
+
+describe("parseActionQuery", () => {
+  it("should parse the example query", async () => {
+    expect(
+      parseActionQuery(
+        "agent.type:USER action.verb:DELETE status:5* cost>1.00 -app:healthcheck"
+      )
+    ).toEqual({
+      where: {
+        and: [
+          { agents: { type: "USER" } },
+          { action: { verb: "DELETE" } },
+          { field: "response.status", wildcard: "5*" },
+          { field: "cost.amount", gt: 1 },
+          { not: { app: "healthcheck" } },
+        ],
+      },
+    });
+  });
+
+  it("should parse a single term without an and node", async () => {
+    expect(parseActionQuery("env:production")).toEqual({
+      where: { environment: "production" },
+    });
+    expect(parseActionQuery("")).toEqual({});
+  });
+
+  it("should parse OR, NOT and groups", async () => {
+    expect(
+      parseActionQuery(
+        "(agent.id:user_1 verb:DELETE) OR target.id:t1 NOT (env:staging OR env:dev)"
+      )
+    ).toEqual({
+      where: {
+        or: [
+          {
+            and: [{ agents: { id: "user_1" } }, { action: { verb: "DELETE" } }],
+          },
+          {
+            and: [
+              { targets: { id: "t1" } },
+              {
+                not: {
+                  or: [{ environment: "staging" }, { environment: "dev" }],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  it("should parse quoted values, meta and key-value fields", async () => {
+    expect(
+      parseActionQuery(
+        'action.object:"/v1/invoices/:id" agent.meta.email:"jane \\"j\\" doe" request.query.page:2 request.userAgent:curl response.body.error:oops meta.region:eu'
+      )
+    ).toEqual({
+      where: {
+        and: [
+          { action: { object: "/v1/invoices/:id" } },
+          { agents: { meta: { email: 'jane "j" doe' } } },
+          { request: { query: { page: "2" } } },
+          { request: { userAgent: "curl" } },
+          { response: { body: { error: "oops" } } },
+          { meta: { region: "eu" } },
+        ],
+      },
+    });
+  });
+
+  it("should parse numeric ranges", async () => {
+    expect(parseActionQuery("time>=100 time<500 cost:2.5")).toEqual({
+      where: {
+        and: [
+          { field: "response.time", gte: 100 },
+          { field: "response.time", lt: 500 },
+          { field: "cost.amount", gte: 2.5, lte: 2.5 },
+        ],
+      },
+    });
+  });
+
+  it("should return top-level free text as the query", async () => {
+    expect(parseActionQuery("invoice app:billing jane")).toEqual({
+      where: { app: "billing" },
+      query: "invoice jane",
+    });
+    expect(parseActionQuery('"jane doe"')).toEqual({ query: "jane doe" });
+  });
+
+  it("should throw readable parse errors", async () => {
+    const cases: Array<[string, string, number]> = [
+      ["foo:bar", 'unknown field "foo"', 0],
+      ["constructor:x", 'unknown field "constructor"', 0],
+      ["__proto__:x", 'unknown field "__proto__"', 0],
+      ["app:x toString.y:z", 'unknown field "toString.y"', 6],
+      ["app:x cost>cheap", '"cost" needs a number, got "cheap"', 6],
+      ["app>1", '"app" can\'t be compared with >', 0],
+      ["meta.key:a*", '"meta.key" doesn\'t support wildcards', 0],
+      ["meta:x", '"meta" needs a key', 0],
+      ["agent:x", '"agent" needs a field, e.g. agent.id', 0],
+      ["(app:x", 'expected ")" to close "("', 6],
+      ["app:x )", 'unexpected ")"', 6],
+      ["app:x OR", "expected a search term", 8],
+      ['app:"x', "unterminated quoted value", 4],
+      ["-jane", '"jane" needs a field', 1],
+    ];
+
+    cases.forEach(([query, message, position]) => {
+      let error: unknown;
+      try {
+        parseActionQuery(query);
+      } catch (err) {
+        error = err;
+      }
+      expect(error, query).toBeInstanceOf(QueryParseError);
+      expect((error as QueryParseError).message, query).toContain(message);
+      expect((error as QueryParseError).position, query).toBe(position);
+      expect((error as QueryParseError).statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine, QueryMode } from "../../src";
+
+describe("OpenSearchEngine query modes", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = (queryMode?: QueryMode) =>
+    new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        queryMode,
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  // the query clause comes right after companyId and the date range
+  const getQueryClause = (engine: OpenSearchEngine, filters: any) =>
+    engine.buildFindManyQuery({}, { companyId: "123", ...filters })[2];
+
+  const findClause = (query: any, field: string): any => {
+    if (!query || typeof query !== "object") return undefined;
+    if (Object.values(query).some((v: any) => v && v[field])) return query;
+    for (const value of Object.values(query)) {
+      const found = Array.isArray(value)
+        ? value.map((v) => findClause(v, field)).find((v) => v)
+        : findClause(value, field);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  it("should default to exact term matches", () => {
+    const query = getQueryClause(createEngine(), { query: "invoice" });
+
+    expect(findClause(query, "action.object.keyword")).toEqual({
+      term: { "action.object.keyword": "invoice" },
+    });
+    expect(findClause(query, "action.object")).toBeUndefined();
+  });
+
+  it("should match analyzed text fields in fulltext mode", () => {
+    const query = getQueryClause(createEngine("fulltext"), {
+      query: "invoice",
+    });
+
+    expect(findClause(query, "action.object")).toEqual({
+      match: { "action.object": { query: "invoice" } },
+    });
+    expect(findClause(query, "action.id")).toEqual({
+      term: { "action.id": { value: "invoice", boost: 2 } },
+    });
+    expect(query.bool.should).toContainEqual({
+      nested: {
+        path: "agents",
+        score_mode: "max",
+        query: {
+          nested: {
+            path: "agents.meta",
+            score_mode: "max",
+            query: {
+              match: { "agents.meta.value": { query: "invoice" } },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("should match prefixes in prefix mode", () => {
+    const query = getQueryClause(createEngine(), {
+      query: "jane@exa",
+      queryMode: "prefix",
+    });
+
+    expect(findClause(query, "agents.meta.value")).toEqual({
+      match_phrase_prefix: { "agents.meta.value": { query: "jane@exa" } },
+    });
+    expect(findClause(query, "agents.id")).toEqual({
+      prefix: { "agents.id": { value: "jane@exa" } },
+    });
+  });
+
+  it("should allow typos in fuzzy mode", () => {
+    const query = getQueryClause(createEngine("prefix"), {
+      query: "invioce",
+      queryMode: "fuzzy",
+    });
+
+    expect(findClause(query, "changes.after")).toEqual({
+      match: { "changes.after": { query: "invioce", fuzziness: "AUTO" } },
+    });
+    expect(findClause(query, "id")).toEqual({
+      fuzzy: { id: { value: "invioce", fuzziness: "AUTO" } },
+    });
+  });
+
+  it("should sort text matches by relevance unless sorted", async () => {
+    const engine = createEngine("fulltext");
+    const search = vi.spyOn(engine._client, "search").mockResolvedValue({
+      body: { hits: { total: { value: 0 }, hits: [] } },
+    } as any);
+
+    await engine.findMany({}, { companyId: "123", query: "invoice" });
+    await engine.findMany(
+      { sortBy: "timestamp" },
+      { companyId: "123", query: "invoice" }
+    );
+    await engine.findMany(
+      {},
+      { companyId: "123", query: "invoice", queryMode: "exact" }
+    );
+
+    const sorts = search.mock.calls.map(([params]: any) => params.body.sort);
+    expect(sorts).toEqual([
+      [{ _score: { order: "desc" } }, { timestamp: { order: "desc" } }],
+      [{ timestamp: { order: "desc" } }],
+      [{ timestamp: { order: "desc" } }],
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine, RefreshPolicy } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine refresh policy", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = (refresh?: RefreshPolicy) => {
+    const engine = new OpenSearchEngine(
+      { autoUpdateIndexMappings: false, refresh },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+    vi.spyOn(engine._client, "index").mockResolvedValue({} as any);
+    vi.spyOn(engine._client, "bulk").mockResolvedValue({
+      body: { items: [] },
+    } as any);
+
+    return engine;
+  };
+
+  const action: OpenSearchAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id: "1",
+    timestamp: "2024-09-07T07:04:30.596Z",
+  };
+
+  it("should refresh on create and not on createMany by default", async () => {
+    const engine = createEngine();
+
+    await engine.create(action);
+    await engine.createMany([action]);
+
+    expect(engine._client.index).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh: true })
+    );
+    expect(engine._client.bulk).toHaveBeenCalledWith(
+      expect.not.objectContaining({ refresh: expect.anything() })
+    );
+  });
+
+  it("should use the refresh policy from the constructor", async () => {
+    const engine = createEngine("wait_for");
+
+    await engine.create(action);
+    await engine.createMany([action]);
+
+    expect(engine._client.index).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh: "wait_for" })
+    );
+    expect(engine._client.bulk).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh: "wait_for" })
+    );
+  });
+
+  it("should prefer the refresh policy passed to each call", async () => {
+    const engine = createEngine(true);
+
+    await engine.create(action, { refresh: false });
+    await engine.createMany([action], { refresh: false });
+
+    expect(engine._client.index).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh: false })
+    );
+    expect(engine._client.bulk).toHaveBeenCalledWith(
+      expect.objectContaining({ refresh: false })
+    );
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine shared tenancy", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = () =>
+    new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        tenancy: "shared",
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  const action: OpenSearchAction = {
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id: "1",
+    timestamp: "2024-09-07T07:04:30.596Z",
+  };
+
+  it("should target the shared indices", () => {
+    const engine = createEngine();
+
+    expect(engine.getIndexName(action)).toEqual("actions_shared_2024_09");
+    expect(
+      engine.getIndexNameRange({
+        companyId: "company123",
+        start: "2024-07-15T00:00:00.000Z",
+        end: "2024-09-07T00:00:00.000Z",
+      })
+    ).toEqual(
+      "actions_shared_2024_07,actions_shared_2024_08,actions_shared_2024_09"
+    );
+    expect(engine.getIndexNameWildcard({ companyId: "company123" })).toEqual(
+      "actions_shared_*"
+    );
+  });
+
+  it("should route writes and reads by companyId", async () => {
+    const engine = createEngine();
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockResolvedValue({} as any);
+    const bulk = vi.spyOn(engine._client, "bulk").mockResolvedValue({
+      body: { items: [{ index: { status: 201 } }] },
+    } as any);
+    const search = vi.spyOn(engine._client, "search").mockResolvedValue({
+      body: { hits: { total: { value: 0 }, hits: [] } },
+    } as any);
+    vi.spyOn(engine._client.indices, "putAlias").mockResolvedValue({} as any);
+
+    await engine.create(action);
+    await engine.createMany([action]);
+    await engine.findMany({}, { companyId: "company123" });
+
+    expect(index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "actions_shared_2024_09",
+        routing: "company123",
+      })
+    );
+    expect(bulk).toHaveBeenCalledWith({
+      body: [
+        {
+          index: {
+            _index: "actions_shared_2024_09",
+            _id: "1",
+            routing: "company123",
+          },
+        },
+        action,
+      ],
+    });
+    expect(search).toHaveBeenCalledWith(
+      expect.objectContaining({ routing: "company123" })
+    );
+  });
+
+  it("should add a filtered, routed alias for a tenant", async () => {
+    const engine = createEngine();
+    const putAlias = vi
+      .spyOn(engine._client.indices, "putAlias")
+      .mockResolvedValue({} as any);
+
+    await engine.upsertTenantAlias("company123");
+
+    expect(putAlias).toHaveBeenCalledWith({
+      index: "actions_shared_*_*",
+      name: "actions_tenant_company123",
+      body: {
+        filter: { term: { companyId: "company123" } },
+        routing: "company123",
+      },
+    });
+  });
+
+  it("should plan the migration from per-company indices", () => {
+    const engine = createEngine();
+
+    expect(
+      engine.planSharedTenancyMigration([
+        "actions_company123_2024_08",
+        "actions_company_456_2024_09",
+        "actions_shared_2024_09",
+        "other_index",
+      ])
+    ).toEqual([
+      {
+        source: "actions_company123_2024_08",
+        destination: "actions_shared_2024_08",
+      },
+      {
+        source: "actions_company_456_2024_09",
+        destination: "actions_shared_2024_09",
+      },
+    ]);
+  });
+
+  it("should only report the plan on a dry run", async () => {
+    const engine = createEngine();
+    vi.spyOn(engine._client.cat, "indices").mockResolvedValue({
+      body: [
+        { index: "actions_company123_2024_09" },
+        { index: "actions_company123_2024_08" },
+      ],
+    } as any);
+    const reindex = vi.spyOn(engine._client, "reindex");
+
+    const results = await engine.migrateToSharedTenancy({ dryRun: true });
+
+    expect(results).toEqual([
+      {
+        source: "actions_company123_2024_08",
+        destination: "actions_shared_2024_08",
+        migrated: 0,
+        deleted: false,
+      },
+      {
+        source: "actions_company123_2024_09",
+        destination: "actions_shared_2024_09",
+        migrated: 0,
+        deleted: false,
+      },
+    ]);
+    expect(reindex).not.toHaveBeenCalled();
+  });
+  it("should add the tenant alias to shared indices written to", async () => {
+    const engine = createEngine();
+    vi.spyOn(engine._client, "index").mockResolvedValue({} as any);
+    const putAlias = vi
+      .spyOn(engine._client.indices, "putAlias")
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValue({} as any);
+
+    await engine.create(action);
+    await engine.create(action);
+    await engine.create(action);
+
+    // retried after the failure, then skipped once added
+    expect(putAlias).toHaveBeenCalledTimes(2);
+    expect(putAlias).toHaveBeenLastCalledWith({
+      index: "actions_shared_2024_09",
+      name: "actions_tenant_company123",
+      body: {
+        filter: { term: { companyId: "company123" } },
+        routing: "company123",
+      },
+    });
+  });
+
+  it("should copy late writes before deleting per-company indices", async () => {
+    const engine = createEngine();
+    vi.spyOn(engine._client.cat, "indices").mockResolvedValue({
+      body: [{ index: "actions_company123_2024_09" }],
+    } as any);
+    const reindex = vi
+      .spyOn(engine._client, "reindex")
+      .mockResolvedValue({ body: { created: 2, version_conflicts: 5 } } as any);
+    const deleteIndex = vi
+      .spyOn(engine._client.indices, "delete")
+      .mockResolvedValue({} as any);
+
+    await expect(engine.migrateToSharedTenancy()).resolves.toEqual([
+      {
+        source: "actions_company123_2024_09",
+        destination: "actions_shared_2024_09",
+        migrated: 7,
+        deleted: false,
+      },
+    ]);
+    expect(deleteIndex).not.toHaveBeenCalled();
+
+    await expect(engine.finishSharedTenancyMigration()).resolves.toEqual([
+      {
+        source: "actions_company123_2024_09",
+        destination: "actions_shared_2024_09",
+        migrated: 7,
+        deleted: true,
+      },
+    ]);
+    expect(reindex).toHaveBeenCalledTimes(2);
+    expect(deleteIndex).toHaveBeenCalledWith({
+      index: "actions_company123_2024_09",
+    });
+  });
+
+  it("should leave companies whose id starts with the companyId alone", async () => {
+    const engine = createEngine();
+    const indices = vi.spyOn(engine._client.cat, "indices").mockResolvedValue({
+      body: [
+        { index: "actions_acme_2024_01" },
+        { index: "actions_acme_corp_2024_01" },
+      ],
+    } as any);
+    vi.spyOn(engine._client, "reindex").mockResolvedValue({
+      body: { created: 1 },
+    } as any);
+    const deleteIndex = vi
+      .spyOn(engine._client.indices, "delete")
+      .mockResolvedValue({} as any);
+
+    await expect(
+      engine.finishSharedTenancyMigration({ companyId: "acme" })
+    ).resolves.toMatchObject([
+      { source: "actions_acme_2024_01", deleted: true },
+    ]);
+    expect(indices).toHaveBeenCalledWith({
+      index: "actions_acme_*_*",
+      format: "json",
+    });
+    expect(deleteIndex).toHaveBeenCalledTimes(1);
+    expect(deleteIndex).toHaveBeenCalledWith({ index: "actions_acme_2024_01" });
+  });
+});
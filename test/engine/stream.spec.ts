@@ -0,0 +1,71 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Action } from "@acro-sdk/common-store";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine.stream", () => {
+  let engine: OpenSearchEngine;
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {},
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should iterate over every matching action across batches", async () => {
+    const page = await engine.findManyWithCursor(
+      { limit: 10000 },
+      { companyId: "company123" }
+    );
+
+    const ids: string[] = [];
+    for await (const action of engine.stream(
+      { companyId: "company123" },
+      { batchSize: 2 }
+    )) {
+      ids.push(action.id as string);
+    }
+
+    expect(new Set(ids).size).toEqual(ids.length);
+    expect(ids.length).toEqual(page.results.length);
+  });
+
+  it("should stop cleanly on an early break", async () => {
+    const actions: Action[] = [];
+    for await (const action of engine.streamActions(
+      { companyId: "company123" },
+      { batchSize: 1 }
+    )) {
+      actions.push(action);
+      break;
+    }
+
+    expect(actions.length).toEqual(1);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchEngine } from "../../src";
+
+describe("OpenSearchEngine.upsertIndexLifecyclePolicy", () => {
+  dotenv.config({ path: ".env.local" });
+
+  const createEngine = () =>
+    new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        indexLifecyclePolicy: { warmAfterDays: 7, deleteAfterMonths: 12 },
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+  it("should build a hot, warm, delete policy attached to the index pattern", () => {
+    const engine = createEngine();
+    const retry = { count: 3, backoff: "exponential", delay: "1m" };
+
+    expect(engine.buildIndexLifecyclePolicy()).toEqual({
+      description: "acro_actions lifecycle",
+      default_state: "hot",
+      states: [
+        {
+          name: "hot",
+          actions: [],
+          transitions: [
+            { state_name: "warm", conditions: { min_index_age: "7d" } },
+          ],
+        },
+        {
+          name: "warm",
+          actions: [
+            { retry, replica_count: { number_of_replicas: 0 } },
+            { retry, force_merge: { max_num_segments: 1 } },
+          ],
+          transitions: [
+            { state_name: "delete", conditions: { min_index_age: "360d" } },
+          ],
+        },
+        {
+          name: "delete",
+          actions: [{ retry, delete: {} }],
+          transitions: [],
+        },
+      ],
+      ism_template: [{ index_patterns: ["actions_*"], priority: 100 }],
+    });
+  });
+
+  it("should create the policy when it doesn't exist", async () => {
+    const engine = createEngine();
+    vi.spyOn(engine._client.http, "get").mockRejectedValue(
+      Object.assign(new Error("not found"), { statusCode: 404 })
+    );
+    const put = vi
+      .spyOn(engine._client.http, "put")
+      .mockResolvedValue({} as any);
+
+    await engine.upsertIndexLifecyclePolicy();
+
+    expect(put).toHaveBeenCalledWith({
+      path: "/_plugins/_ism/policies/acro_actions_lifecycle",
+      body: { policy: engine.buildIndexLifecyclePolicy() },
+    });
+  });
+
+  it("should not update a policy that already matches", async () => {
+    const engine = createEngine();
+    const policy = engine.buildIndexLifecyclePolicy();
+    vi.spyOn(engine._client.http, "get").mockResolvedValue({
+      body: {
+        _seq_no: 3,
+        _primary_term: 1,
+        policy: {
+          ...policy,
+          policy_id: "acro_actions_lifecycle",
+          ism_template: [
+            { ...policy.ism_template[0], last_updated_time: 1726000000000 },
+          ],
+        },
+      },
+    } as any);
+    const put = vi.spyOn(engine._client.http, "put");
+
+    await engine.upsertIndexLifecyclePolicy();
+
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it("should update a policy that doesn't match", async () => {
+    const engine = createEngine();
+    const policy = engine.buildIndexLifecyclePolicy();
+    vi.spyOn(engine._client.http, "get").mockResolvedValue({
+      body: {
+        _seq_no: 3,
+        _primary_term: 1,
+        policy: { ...policy, default_state: "warm" },
+      },
+    } as any);
+    const put = vi
+      .spyOn(engine._client.http, "put")
+      .mockResolvedValue({} as any);
+
+    await engine.upsertIndexLifecyclePolicy();
+
+    expect(put).toHaveBeenCalledWith({
+      path: "/_plugins/_ism/policies/acro_actions_lifecycle",
+      querystring: { if_seq_no: 3, if_primary_term: 1 },
+      body: { policy },
+    });
+  });
+});
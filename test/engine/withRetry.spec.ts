@@ -0,0 +1,181 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import dotenv from "dotenv";
+
+import { OpenSearchAction, OpenSearchEngine } from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("OpenSearchEngine.withRetry", () => {
+  let engine: OpenSearchEngine;
+
+  const statusError = (statusCode: number) =>
+    Object.assign(new Error(`status ${statusCode}`), {
+      name: "ResponseError",
+      statusCode,
+    });
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      {
+        autoUpdateIndexMappings: false,
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+      },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+  });
+
+  it("should retry retryable errors until the call succeeds", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(statusError(429))
+      .mockRejectedValueOnce(statusError(503))
+      .mockResolvedValueOnce("ok");
+
+    await expect(engine.withRetry("test", fn)).resolves.toEqual("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const fn = vi.fn().mockRejectedValue(statusError(503));
+
+    await expect(engine.withRetry("test", fn)).rejects.toThrow("status 503");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry other errors", async () => {
+    const fn = vi.fn().mockRejectedValue(statusError(400));
+
+    await expect(engine.withRetry("test", fn)).rejects.toThrow("status 400");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should back off exponentially up to maxDelay", () => {
+    engine._retry.maxDelay = 300;
+
+    expect(engine.getRetryDelay(1)).toEqual(1);
+    expect(engine.getRetryDelay(2)).toEqual(2);
+    expect(engine.getRetryDelay(10)).toEqual(300);
+  });
+
+  it("should only resend the bulk items that failed with a retryable status", async () => {
+    const first: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+    const second: OpenSearchAction = { ...first, id: "2" };
+    const third: OpenSearchAction = { ...first, id: "3" };
+
+    const bulkIndex = vi
+      .spyOn(engine, "bulkIndex")
+      .mockResolvedValueOnce({
+        created: [first],
+        failed: [
+          { action: second, status: 429, reason: "too many requests" },
+          { action: third, status: 400, reason: "bad request" },
+        ],
+      })
+      .mockResolvedValueOnce({ created: [second], failed: [] });
+
+    const result = await engine.bulkCreate([first, second, third]);
+
+    expect(bulkIndex).toHaveBeenCalledTimes(2);
+    expect(bulkIndex).toHaveBeenLastCalledWith([second], undefined);
+    expect(result).toEqual({
+      created: [first, second],
+      failed: [{ action: third, status: 400, reason: "bad request" }],
+    });
+  });
+  it("should treat a conflict on a retried create as stored", async () => {
+    engine._storageMode = "dataStream";
+    const action: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+    const conflict = Object.assign(statusError(409), {
+      body: { error: { type: "version_conflict_engine_exception" } },
+    });
+
+    const index = vi
+      .spyOn(engine._client, "index")
+      .mockRejectedValueOnce(statusError(503))
+      .mockRejectedValueOnce(conflict);
+
+    await expect(engine.create(action)).resolves.toEqual(action);
+    expect(index).toHaveBeenCalledTimes(2);
+
+    // without a retry, the conflict is a real failure
+    index.mockRejectedValueOnce(conflict);
+    await expect(engine.create(action)).rejects.toThrow("status 409");
+  });
+
+  it("should treat conflicts of resent bulk items as stored", async () => {
+    const first: OpenSearchAction = {
+      ...OPENSEARCH_ACTION_TEMPLATE,
+      id: "1",
+      timestamp: "2024-09-07T07:04:30.596Z",
+    };
+    const second: OpenSearchAction = { ...first, id: "2" };
+
+    vi.spyOn(engine, "bulkIndex")
+      .mockResolvedValueOnce({
+        created: [],
+        failed: [
+          { action: first, status: 503, reason: "unavailable" },
+          {
+            action: second,
+            status: 409,
+            type: "version_conflict_engine_exception",
+            reason: "exists",
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        created: [],
+        failed: [
+          {
+            action: first,
+            status: 409,
+            type: "version_conflict_engine_exception",
+            reason: "exists",
+          },
+        ],
+      });
+
+    const result = await engine.bulkCreate([first, second]);
+
+    expect(result.created).toEqual([first]);
+    expect(result.failed).toEqual([
+      {
+        action: second,
+        status: 409,
+        type: "version_conflict_engine_exception",
+        reason: "exists",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Copyright (C) 2024 Acro Data Solutions, Inc.
+
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Lesser General Public License for more details.
+ * 
+ * You should have received a copy of the GNU Lesser General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import dotenv from "dotenv";
+
+import {
+  BufferedWriter,
+  BulkCreateError,
+  OpenSearchAction,
+  OpenSearchEngine,
+} from "../../src";
+import { OPENSEARCH_ACTION_TEMPLATE } from "../mock/actions";
+
+describe("BufferedWriter", () => {
+  let engine: OpenSearchEngine;
+  let writer: BufferedWriter;
+
+  const action = (id: string): OpenSearchAction => ({
+    ...OPENSEARCH_ACTION_TEMPLATE,
+    id,
+    timestamp: "2024-09-07T07:04:30.596Z",
+  });
+
+  beforeEach(() => {
+    dotenv.config({ path: ".env.local" });
+
+    engine = new OpenSearchEngine(
+      { autoUpdateIndexMappings: false },
+      {
+        nodes: [process.env.OPENSEARCH_NODE as string],
+        ssl: {
+          rejectUnauthorized: false,
+        },
+      }
+    );
+
+    vi.spyOn(engine, "bulkCreate").mockImplementation(async (actions) => ({
+      created: actions,
+      failed: [],
+    }));
+  });
+
+  afterEach(async () => {
+    await writer?.close();
+  });
+
+  it("should flush once the batch size is reached", async () => {
+    writer = new BufferedWriter(engine, {
+      maxBatchSize: 2,
+      flushInterval: 60000,
+    });
+
+    await writer.write(action("1"));
+    expect(engine.bulkCreate).not.toHaveBeenCalled();
+
+    await writer.write(action("2"));
+    await writer.flush();
+
+    expect(engine.bulkCreate).toHaveBeenCalledTimes(1);
+    expect(engine.bulkCreate).toHaveBeenCalledWith([action("1"), action("2")], {
+      skipInvalid: true,
+    });
+  });
+
+  it("should split batches by byte size", async () => {
+    const bytes = Buffer.byteLength(JSON.stringify(action("1")));
+    writer = new BufferedWriter(engine, {
+      maxBatchBytes: bytes * 2,
+      flushInterval: 60000,
+    });
+
+    await writer.write(action("1"));
+    await writer.write(action("2"));
+    await writer.write(action("3"));
+    await writer.flush();
+
+    expect(engine.bulkCreate).toHaveBeenCalledTimes(2);
+    expect(writer.size).toEqual(0);
+  });
+
+  it("should flush on close", async () => {
+    writer = new BufferedWriter(engine, { flushInterval: 60000 });
+
+    await writer.write(action("1"));
+    await writer.close();
+
+    expect(engine.bulkCreate).toHaveBeenCalledTimes(1);
+    await expect(writer.write(action("2"))).rejects.toMatchObject({
+      name: "OpenSearchEngineError",
+      message: "BufferedWriter is closed",
+      statusCode: 409,
+    });
+  });
+
+  it("should drop actions when the queue is full", async () => {
+    const onDrop = vi.fn();
+    writer = new BufferedWriter(engine, {
+      maxQueueSize: 2,
+      maxBatchSize: 10,
+      flushInterval: 60000,
+      overflow: "dropOldest",
+      onDrop,
+    });
+
+    await writer.write(action("1"));
+    await writer.write(action("2"));
+    await writer.write(action("3"));
+
+    expect(onDrop).toHaveBeenCalledWith(action("1"));
+    expect(writer.size).toEqual(2);
+  });
+
+  it("should block writes until a flush makes room", async () => {
+    writer = new BufferedWriter(engine, {
+      maxQueueSize: 1,
+      maxBatchSize: 10,
+      flushInterval: 60000,
+    });
+
+    await writer.write(action("1"));
+    await writer.write(action("2"));
+
+    expect(engine.bulkCreate).toHaveBeenCalledWith([action("1")], {
+      skipInvalid: true,
+    });
+    expect(writer.size).toEqual(1);
+  });
+
+  it("should report failed batches through onError", async () => {
+    const onError = vi.fn();
+    vi.spyOn(engine, "bulkCreate").mockImplementation(async (actions) => ({
+      created: [],
+      failed: actions.map((a) => ({ action: a, status: 400, reason: "bad" })),
+    }));
+    writer = new BufferedWriter(engine, { flushInterval: 60000, onError });
+
+    await writer.write(action("1"));
+    await writer.flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(BulkCreateError), [
+      action("1"),
+    ]);
+  });
+
+  it("should reject invalid actions on write", async () => {
+    writer = new BufferedWriter(engine, { flushInterval: 60000 });
+
+    await expect(
+      writer.write({ timestamp: "now" } as OpenSearchAction)
+    ).rejects.toThrow();
+  });
+});